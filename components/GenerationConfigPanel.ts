@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import type { Scale } from '@google/genai';
+
+import './MidiLearnBadge';
+import type { GenerationConfig } from '../types';
+import {
+  CONTINUOUS_CONFIG_PARAMETERS,
+  MAX_SEED,
+  randomSeed,
+  SCALES,
+  STEM_CONFIG_PARAMETERS,
+  type ContinuousConfigParameter,
+} from '../utils/GenerationConfig';
+import type { MidiMappingRegistry } from '../utils/MidiMappingRegistry';
+
+/**
+ * A collapsible editor for the model's generation settings. Edits are sent
+ * up as a `config-changed` patch; the owner holds the config.
+ */
+@customElement('generation-config-panel')
+export class GenerationConfigPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      background: #000a;
+      backdrop-filter: blur(10px);
+      border: 1px solid #fff2;
+      border-radius: 1.5vmin;
+      padding: 1vmin 1.5vmin;
+      font-size: 1.1vmin;
+      color: #fffa;
+    }
+    .header {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      cursor: pointer;
+      user-select: none;
+    }
+    .title {
+      flex: 1;
+      font-weight: 800;
+      color: #fff6;
+      text-transform: uppercase;
+      letter-spacing: 0.1em;
+    }
+    .row {
+      display: grid;
+      grid-template-columns: 8vmin 1fr 4.5vmin auto;
+      gap: 0.6vmin;
+      align-items: center;
+      margin-top: 0.8vmin;
+      input[type='range'] {
+        min-width: 0;
+        accent-color: #00ffcc;
+      }
+    }
+    .row.auto input[type='range'] {
+      opacity: 0.4;
+    }
+    .value {
+      text-align: right;
+      font-family: monospace;
+    }
+    .stems {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.6vmin;
+      margin-top: 0.8vmin;
+    }
+    select, button, input[type='number'] {
+      font: inherit;
+      background: #000;
+      color: #fff;
+      border: 1px solid #fff3;
+      border-radius: 0.4vmin;
+      padding: 2px 4px;
+      min-width: 0;
+    }
+    button {
+      cursor: pointer;
+    }
+    button.active {
+      background: #00ffcc;
+      color: #000;
+      border-color: #00ffcc;
+    }
+  `;
+
+  @property({ type: Object }) config: GenerationConfig = {};
+  @property({ type: Object }) registry: MidiMappingRegistry | null = null;
+  @property({ type: Boolean }) showMidi = false;
+
+  @state() private expanded = false;
+
+  private patch(patch: GenerationConfig) {
+    this.dispatchEvent(new CustomEvent<GenerationConfig>('config-changed', { detail: patch }));
+  }
+
+  private renderLearnBadge(target: string, label = 'MIDI') {
+    if (!this.showMidi) return '';
+    return html`<midi-learn-badge target=${target} label=${label} .registry=${this.registry}></midi-learn-badge>`;
+  }
+
+  private renderContinuous(parameter: ContinuousConfigParameter) {
+    const { key, label, min, max, step, fallback } = parameter;
+    const value = this.config[key];
+    const format = (v: number) => (step < 1 ? v.toFixed(step < 0.1 ? 2 : 1) : String(v));
+    return html`<label class="row ${value === undefined ? 'auto' : ''}">
+      ${label}
+      <input type="range" min=${min} max=${max} step=${step} .value=${String(value ?? fallback)}
+        @input=${(e: Event) => this.patch({ [key]: parseFloat((e.target as HTMLInputElement).value) })}>
+      <span class="value">${value === undefined ? 'auto' : format(value)}</span>
+      <span>
+        ${parameter.auto ? html`<button title="Let the model choose" class=${value === undefined ? 'active' : ''}
+          @click=${(e: Event) => { e.preventDefault(); this.patch({ [key]: undefined }); }}>A</button>` : ''}
+        ${this.renderLearnBadge(`config/${key}`)}
+      </span>
+    </label>`;
+  }
+
+  private handleSeedChange(e: Event) {
+    const value = (e.target as HTMLInputElement).value;
+    const seed = parseInt(value);
+    this.patch({ seed: value === '' || isNaN(seed) ? undefined : Math.min(Math.max(seed, 0), MAX_SEED) });
+  }
+
+  override render() {
+    const scale = this.config.scale;
+    return html`
+      <div class="header" @click=${() => this.expanded = !this.expanded}>
+        <div class="title">Generation</div>
+        <div>${this.expanded ? '▾' : '▸'}</div>
+      </div>
+      ${this.expanded ? html`
+        <label class="row">
+          Scale
+          <select @change=${(e: Event) => {
+            const value = (e.target as HTMLSelectElement).value as Scale;
+            this.patch({ scale: value === SCALES[0].value ? undefined : value });
+          }}>
+            ${SCALES.map((s) => html`<option value=${s.value} ?selected=${(scale ?? SCALES[0].value) === s.value}>${s.label}</option>`)}
+          </select>
+          <span></span>
+          <span>${this.renderLearnBadge('config/scale')}</span>
+        </label>
+        ${CONTINUOUS_CONFIG_PARAMETERS.map((p) => this.renderContinuous(p))}
+        <label class="row">
+          Seed
+          <input type="number" min="0" max=${MAX_SEED} placeholder="random" .value=${this.config.seed?.toString() ?? ''}
+            @change=${this.handleSeedChange}>
+          <span></span>
+          <span>
+            <button title="New random seed" @click=${(e: Event) => { e.preventDefault(); this.patch({ seed: randomSeed() }); }}>⚄</button>
+            ${this.renderLearnBadge('config/seed-random')}
+          </span>
+        </label>
+        <div class="stems">
+          ${STEM_CONFIG_PARAMETERS.map(({ key, label }) => html`
+            <button class=${this.config[key] ? 'active' : ''} @click=${() => this.patch({ [key]: !this.config[key] })}>${label}</button>
+            ${this.renderLearnBadge(`config/${key}`)}
+          `)}
+        </div>
+      ` : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'generation-config-panel': GenerationConfigPanel;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import './MidiResponseEditor';
+import type { MidiResponse } from '../types';
+import { describeMidiSource, type MidiMappingRegistry } from '../utils/MidiMappingRegistry';
+import { DEFAULT_RESPONSE } from '../utils/midiResponse';
+
+/**
+ * Shows the MIDI mapping of one registered parameter.
+ * Click to learn, right-click to clear, "~" to edit the response curve.
+ */
+@customElement('midi-learn-badge')
+export class MidiLearnBadge extends LitElement {
+  static override styles = css`
+    :host {
+      display: inline-flex;
+      gap: 2px;
+      position: relative;
+    }
+    midi-response-editor {
+      position: absolute;
+      top: 100%;
+      left: 0;
+      margin-top: 0.5vmin;
+      z-index: 30;
+    }
+    .badge {
+      font-family: monospace;
+      font-size: 1.1vmin;
+      border: 0.15vmin solid #fff6;
+      border-radius: 0.5vmin;
+      padding: 1px 4px;
+      color: #fffa;
+      background: #0006;
+      cursor: pointer;
+      user-select: none;
+      white-space: nowrap;
+      &.mapped {
+        border-color: #fff;
+        color: #fff;
+      }
+      &.learning {
+        color: orange;
+        border-color: orange;
+      }
+    }
+  `;
+
+  @property({ type: String }) target = '';
+  @property({ type: String }) label = 'MIDI';
+  @property({ type: Object }) registry: MidiMappingRegistry | null = null;
+
+  @state() private showResponseEditor = false;
+
+  private readonly onMappingsChanged = () => this.requestUpdate();
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.registry?.addEventListener('mappings-changed', this.onMappingsChanged);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.registry?.removeEventListener('mappings-changed', this.onMappingsChanged);
+  }
+
+  private handleClick(e: Event) {
+    e.stopPropagation();
+    if (!this.registry) return;
+    if (this.registry.learningTarget === this.target) {
+      this.registry.cancelLearn();
+    } else {
+      this.registry.startLearn(this.target);
+    }
+  }
+
+  private handleContextMenu(e: Event) {
+    e.preventDefault();
+    this.registry?.clearMapping(this.target);
+  }
+
+  private handleResponseChanged(e: CustomEvent<MidiResponse>) {
+    this.registry?.setResponse(this.target, e.detail);
+  }
+
+  override render() {
+    const learning = this.registry?.learningTarget === this.target;
+    const mapping = this.registry?.getMapping(this.target);
+    const parameter = this.registry?.getParameter(this.target);
+    const classes = classMap({ badge: true, learning, mapped: !!mapping });
+    const label = learning ? 'Learn' : mapping ? describeMidiSource(mapping.source) : this.label;
+    const editable = !!mapping && parameter?.kind === 'continuous';
+    return html`<span
+      class=${classes}
+      title=${parameter?.label ?? this.target}
+      @click=${this.handleClick}
+      @contextmenu=${this.handleContextMenu}>${label}</span>
+      ${editable ? html`<span class="badge" title="Response curve"
+        @click=${() => this.showResponseEditor = !this.showResponseEditor}>~</span>` : ''}
+      ${editable && this.showResponseEditor ? html`<midi-response-editor
+        .response=${mapping.response ?? DEFAULT_RESPONSE}
+        @response-changed=${this.handleResponseChanged}></midi-response-editor>` : ''}`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-learn-badge': MidiLearnBadge;
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { MidiLogEntry } from '../types';
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+
+/** How many entries are kept; older ones scroll off. */
+const MAX_ENTRIES = 500;
+
+/** How many of the newest entries are rendered. */
+const VISIBLE_ENTRIES = 100;
+
+/** How long a device LED stays lit after a message, in ms. */
+const LED_HOLD_MS = 150;
+
+/** A collapsible live log of incoming MIDI, with per-device activity LEDs. */
+@customElement('midi-monitor')
+export class MidiMonitor extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      background: #000a;
+      backdrop-filter: blur(10px);
+      border: 1px solid #fff2;
+      border-radius: 1.5vmin;
+      padding: 1vmin 1.5vmin;
+      font-size: 1.1vmin;
+      color: #fffa;
+    }
+    .header {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      cursor: pointer;
+      user-select: none;
+    }
+    .title {
+      flex: 1;
+      font-weight: 800;
+      color: #fff6;
+      text-transform: uppercase;
+      letter-spacing: 0.1em;
+    }
+    .devices {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 1vmin;
+      margin: 0.8vmin 0;
+    }
+    .device {
+      display: flex;
+      align-items: center;
+      gap: 0.4vmin;
+    }
+    .led {
+      width: 0.9vmin;
+      height: 0.9vmin;
+      border-radius: 50%;
+      background: #333;
+      &.lit {
+        background: #00ffcc;
+        box-shadow: 0 0 6px #00ffcc;
+      }
+    }
+    .toolbar {
+      display: flex;
+      gap: 0.6vmin;
+      margin-bottom: 0.6vmin;
+    }
+    input, button {
+      font: inherit;
+      background: #000;
+      color: #fff;
+      border: 1px solid #fff3;
+      border-radius: 0.4vmin;
+      padding: 2px 4px;
+    }
+    input {
+      flex: 1;
+      min-width: 0;
+    }
+    button {
+      cursor: pointer;
+      &.active {
+        background: #fff;
+        color: #000;
+      }
+    }
+    .log {
+      max-height: 18vmin;
+      overflow-y: auto;
+      font-family: monospace;
+      scrollbar-width: thin;
+      scrollbar-color: #fff4 transparent;
+    }
+    .entry {
+      display: grid;
+      grid-template-columns: 7vmin 3vmin 8vmin 1fr;
+      gap: 0.6vmin;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      &.consumed {
+        color: #fff;
+      }
+      &.dropped {
+        color: #f66a;
+      }
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Array }) inputIds: string[] = [];
+
+  @state() private expanded = false;
+  @state() private paused = false;
+  @state() private filter = '';
+
+  private entries: MidiLogEntry[] = [];
+  private rafId: number | null = null;
+
+  private readonly onLog = (e: Event) => {
+    if (this.paused) return;
+    this.entries.push((e as CustomEvent<MidiLogEntry>).detail);
+    if (this.entries.length > MAX_ENTRIES) this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    if (this.expanded) this.requestUpdate();
+  };
+
+  private readonly onActivity = () => this.startTicking();
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.addEventListener('midi-log', this.onLog);
+    this.midiDispatcher?.addEventListener('input-activity', this.onActivity);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('midi-log', this.onLog);
+    this.midiDispatcher?.removeEventListener('input-activity', this.onActivity);
+    if (this.rafId !== null) cancelAnimationFrame(this.rafId);
+    this.rafId = null;
+  }
+
+  private startTicking() {
+    if (this.rafId === null && this.inputIds.length > 0) this.rafId = requestAnimationFrame(() => this.tick());
+  }
+
+  /**
+   * Redraws the LEDs each frame while any is lit, keeping them off the log's
+   * update path. Activity restarts the loop once they have all gone out.
+   */
+  private tick() {
+    this.rafId = null;
+    const now = performance.now();
+    let lit = false;
+    this.shadowRoot?.querySelectorAll<HTMLElement>('.led').forEach((led) => {
+      const last = this.midiDispatcher?.getLastActivity(led.dataset.id ?? '');
+      const on = last !== undefined && now - last < LED_HOLD_MS;
+      led.classList.toggle('lit', on);
+      lit ||= on;
+    });
+    if (lit) this.startTicking();
+  }
+
+  private formatEntry(entry: MidiLogEntry) {
+    const channel = entry.channel === undefined ? '' : `Ch${entry.channel + 1}`;
+    const outcome = entry.dropped
+      ? `dropped: ${entry.dropped}`
+      : entry.consumedBy.length > 0 ? `→ ${entry.consumedBy.join(', ')}` : '';
+    return [`${(entry.time / 1000).toFixed(3)}s`, entry.device, channel, entry.type, entry.data, outcome];
+  }
+
+  private get filteredEntries() {
+    const filter = this.filter.trim().toLowerCase();
+    if (!filter) return this.entries;
+    return this.entries.filter((e) => this.formatEntry(e).join(' ').toLowerCase().includes(filter));
+  }
+
+  private exportLog() {
+    const text = this.filteredEntries.map((e) => this.formatEntry(e).join('\t')).join('\n');
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'midi-log.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private clear() {
+    this.entries = [];
+    this.requestUpdate();
+  }
+
+  private renderLog() {
+    const visible = this.filteredEntries.slice(-VISIBLE_ENTRIES).reverse();
+    return html`<div class="log">
+      ${visible.map((entry) => {
+        const [, device, channel, type, data, outcome] = this.formatEntry(entry);
+        const classes = classMap({
+          entry: true,
+          consumed: entry.consumedBy.length > 0,
+          dropped: !!entry.dropped,
+        });
+        return html`<div class=${classes} title=${this.formatEntry(entry).join(' ')}>
+          <span>${device}</span><span>${channel}</span><span>${type}</span><span>${data} ${outcome}</span>
+        </div>`;
+      })}
+    </div>`;
+  }
+
+  override render() {
+    return html`
+      <div class="header" @click=${() => this.expanded = !this.expanded}>
+        <div class="title">MIDI Monitor</div>
+        <div>${this.expanded ? '▾' : '▸'}</div>
+      </div>
+      <div class="devices">
+        ${this.inputIds.map((id) => html`<div class="device">
+          <div class="led" data-id=${id}></div>${this.midiDispatcher?.getDeviceName(id)}
+        </div>`)}
+      </div>
+      ${this.expanded ? html`
+        <div class="toolbar">
+          <input type="search" placeholder="Filter" .value=${this.filter}
+            @input=${(e: Event) => this.filter = (e.target as HTMLInputElement).value}>
+          <button class=${this.paused ? 'active' : ''} @click=${() => this.paused = !this.paused}>${this.paused ? 'Resume' : 'Pause'}</button>
+          <button @click=${this.clear}>Clear</button>
+          <button @click=${this.exportLog}>Export</button>
+        </div>
+        ${this.renderLog()}
+      ` : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-monitor': MidiMonitor;
+  }
+}
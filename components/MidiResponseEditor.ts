@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement, svg } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { ControllerEncoding, MidiResponse, ResponseCurve, TakeoverMode } from '../types';
+import { applyResponse, CONTROLLER_ENCODINGS, DEFAULT_RESPONSE, RESPONSE_CURVES, TAKEOVER_MODES } from '../utils/midiResponse';
+
+/** Edits the range, curve, encoding and takeover of a MIDI mapping, live. */
+@customElement('midi-response-editor')
+export class MidiResponseEditor extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 0.6vmin;
+      padding: 1vmin;
+      background: #111e;
+      border: 1px solid #fff3;
+      border-radius: 1vmin;
+      font-size: 1.2vmin;
+      color: #fff;
+      min-width: 16vmin;
+      box-shadow: 0 4px 20px rgba(0,0,0,0.5);
+    }
+    label {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 1vmin;
+    }
+    input[type=number] {
+      width: 6vmin;
+      background: #000;
+      color: #fff;
+      border: 1px solid #fff3;
+      border-radius: 0.4vmin;
+      font: inherit;
+    }
+    select {
+      background: #000;
+      color: #fff;
+      border: 1px solid #fff3;
+      border-radius: 0.4vmin;
+      font: inherit;
+    }
+    svg {
+      width: 100%;
+      height: 8vmin;
+      background: #fff1;
+      border-radius: 0.4vmin;
+    }
+  `;
+
+  @property({ type: Object }) response: MidiResponse = DEFAULT_RESPONSE;
+  /** The target's full range in display units, e.g. 2 for prompt weight. */
+  @property({ type: Number }) scale = 1;
+
+  private patchResponse(patch: Partial<MidiResponse>) {
+    this.response = { ...this.response, ...patch };
+    this.dispatchEvent(new CustomEvent<MidiResponse>('response-changed', { detail: this.response }));
+  }
+
+  private handleBound(key: 'min' | 'max', e: Event) {
+    const value = parseFloat((e.target as HTMLInputElement).value);
+    if (isNaN(value)) return;
+    this.patchResponse({ [key]: Math.min(Math.max(value / this.scale, 0), 1) });
+  }
+
+  private renderPreview() {
+    const points: string[] = [];
+    for (let i = 0; i <= 32; i++) {
+      const x = i / 32;
+      const y = applyResponse(x, this.response);
+      points.push(`${x * 100},${(1 - y) * 40}`);
+    }
+    return html`<svg viewBox="0 0 100 40" preserveAspectRatio="none">
+      ${svg`<polyline points=${points.join(' ')} fill="none" stroke="orange" stroke-width="1.5" />`}
+    </svg>`;
+  }
+
+  override render() {
+    const { min, max, invert, curve, takeover = 'jump', encoding = 'absolute', acceleration = 0, highResolution = false } = this.response;
+    const step = this.scale / 100;
+    return html`
+      ${this.renderPreview()}
+      <label>Min
+        <input type="number" min="0" max=${this.scale} step=${step} .value=${(min * this.scale).toFixed(2)}
+          @input=${(e: Event) => this.handleBound('min', e)}>
+      </label>
+      <label>Max
+        <input type="number" min="0" max=${this.scale} step=${step} .value=${(max * this.scale).toFixed(2)}
+          @input=${(e: Event) => this.handleBound('max', e)}>
+      </label>
+      <label>Curve
+        <select @change=${(e: Event) => this.patchResponse({ curve: (e.target as HTMLSelectElement).value as ResponseCurve })}>
+          ${RESPONSE_CURVES.map((c) => html`<option value=${c} ?selected=${c === curve}>${c}</option>`)}
+        </select>
+      </label>
+      <label>Encoding
+        <select @change=${(e: Event) => this.patchResponse({ encoding: (e.target as HTMLSelectElement).value as ControllerEncoding })}>
+          ${CONTROLLER_ENCODINGS.map((m) => html`<option value=${m} ?selected=${m === encoding}>${m}</option>`)}
+        </select>
+      </label>
+      ${encoding !== 'absolute' ? html`
+        <label>Accel
+          <input type="range" min="0" max="1" step="0.05" .value=${acceleration.toString()}
+            @input=${(e: Event) => this.patchResponse({ acceleration: parseFloat((e.target as HTMLInputElement).value) })}>
+        </label>
+      ` : html`
+        <label title="Pair CCs 0-31 with the LSB on CC+32">14-bit
+          <input type="checkbox" .checked=${highResolution}
+            @change=${(e: Event) => this.patchResponse({ highResolution: (e.target as HTMLInputElement).checked })}>
+        </label>
+      `}
+      <label>Takeover
+        <select @change=${(e: Event) => this.patchResponse({ takeover: (e.target as HTMLSelectElement).value as TakeoverMode })}>
+          ${TAKEOVER_MODES.map((m) => html`<option value=${m} ?selected=${m === takeover}>${m}</option>`)}
+        </select>
+      </label>
+      <label>Invert
+        <input type="checkbox" .checked=${invert}
+          @change=${(e: Event) => this.patchResponse({ invert: (e.target as HTMLInputElement).checked })}>
+      </label>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-response-editor': MidiResponseEditor;
+  }
+}
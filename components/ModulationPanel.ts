@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import type { ModulationAssignment, Prompt } from '../types';
+import { MODULATION_SOURCES, type ModulationMatrix } from '../utils/ModulationMatrix';
+
+/** A collapsible editor for routing pitch bend and pressure onto slots. */
+@customElement('modulation-panel')
+export class ModulationPanel extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      background: #000a;
+      backdrop-filter: blur(10px);
+      border: 1px solid #fff2;
+      border-radius: 1.5vmin;
+      padding: 1vmin 1.5vmin;
+      font-size: 1.1vmin;
+      color: #fffa;
+    }
+    .header {
+      display: flex;
+      align-items: center;
+      gap: 1vmin;
+      cursor: pointer;
+      user-select: none;
+    }
+    .title {
+      flex: 1;
+      font-weight: 800;
+      color: #fff6;
+      text-transform: uppercase;
+      letter-spacing: 0.1em;
+    }
+    .assignment {
+      display: grid;
+      grid-template-columns: 1fr 5vmin 1fr 6vmin;
+      gap: 0.4vmin;
+      align-items: center;
+      margin-top: 0.8vmin;
+    }
+    .depth {
+      grid-column: 1 / 4;
+      display: flex;
+      align-items: center;
+      gap: 0.6vmin;
+      input {
+        flex: 1;
+        accent-color: #00ffcc;
+      }
+    }
+    .meter {
+      height: 0.4vmin;
+      background: #00ffcc;
+      border-radius: 0.2vmin;
+    }
+    select, button {
+      font: inherit;
+      background: #000;
+      color: #fff;
+      border: 1px solid #fff3;
+      border-radius: 0.4vmin;
+      padding: 2px 4px;
+      min-width: 0;
+    }
+    button {
+      cursor: pointer;
+    }
+    .add {
+      margin-top: 0.8vmin;
+    }
+  `;
+
+  @property({ type: Object }) matrix: ModulationMatrix | null = null;
+  @property({ type: Object }) prompts: Map<string, Prompt> = new Map();
+
+  @state() private expanded = false;
+
+  private readonly onChange = () => {
+    if (this.expanded) this.requestUpdate();
+  };
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.matrix?.addEventListener('change', this.onChange);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.matrix?.removeEventListener('change', this.onChange);
+  }
+
+  private get assignments() {
+    return this.matrix?.allAssignments ?? [];
+  }
+
+  private add() {
+    const assignment: ModulationAssignment = {
+      source: 'channel-pressure',
+      channel: 'omni',
+      target: 'active',
+      parameter: 'weight',
+      depth: 0.5,
+    };
+    this.matrix?.setAssignments([...this.assignments, assignment]);
+  }
+
+  private patchAssignment(index: number, patch: Partial<ModulationAssignment>) {
+    this.matrix?.setAssignments(this.assignments.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+  }
+
+  private removeAssignment(index: number) {
+    this.matrix?.setAssignments(this.assignments.filter((_, i) => i !== index));
+  }
+
+  private renderAssignment(a: ModulationAssignment, index: number) {
+    const value = this.matrix?.getValue(a.source, a.channel) ?? 0;
+    const selectValue = (e: Event) => (e.target as HTMLSelectElement).value;
+    return html`<div class="assignment">
+      <select title="Source" @change=${(e: Event) => this.patchAssignment(index, { source: selectValue(e) as ModulationAssignment['source'] })}>
+        ${MODULATION_SOURCES.map((s) => html`<option value=${s.type} ?selected=${a.source === s.type}>${s.label}</option>`)}
+      </select>
+      <select title="MIDI channel" @change=${(e: Event) => {
+        const v = selectValue(e);
+        this.patchAssignment(index, { channel: v === 'omni' ? 'omni' : parseInt(v) });
+      }}>
+        <option value="omni" ?selected=${a.channel === 'omni'}>Omni</option>
+        ${Array.from({ length: 16 }, (_, i) => html`<option value=${i} ?selected=${a.channel === i}>Ch${i + 1}</option>`)}
+      </select>
+      <select title="Target slot" @change=${(e: Event) => this.patchAssignment(index, { target: selectValue(e) })}>
+        <option value="active" ?selected=${a.target === 'active'}>Active slots</option>
+        ${[...this.prompts.values()].map((p) => html`<option value=${p.promptId} ?selected=${a.target === p.promptId}>${p.text}</option>`)}
+      </select>
+      <select title="Parameter" @change=${(e: Event) => this.patchAssignment(index, { parameter: selectValue(e) as ModulationAssignment['parameter'] })}>
+        <option value="weight" ?selected=${a.parameter === 'weight'}>Weight</option>
+        <option value="density" ?selected=${a.parameter === 'density'}>Density</option>
+      </select>
+      <label class="depth" title="Depth">
+        ${Math.round(a.depth * 100)}%
+        <input type="range" min="-1" max="1" step="0.05" .value=${String(a.depth)}
+          @input=${(e: Event) => this.patchAssignment(index, { depth: parseFloat((e.target as HTMLInputElement).value) })}>
+      </label>
+      <button title="Remove" @click=${() => this.removeAssignment(index)}>✕</button>
+      <div class="meter" style="width: ${Math.abs(value) * 100}%"></div>
+    </div>`;
+  }
+
+  override render() {
+    return html`
+      <div class="header" @click=${() => this.expanded = !this.expanded}>
+        <div class="title">Modulation (${this.assignments.length})</div>
+        <div>${this.expanded ? '▾' : '▸'}</div>
+      </div>
+      ${this.expanded ? html`
+        ${this.assignments.map((a, i) => this.renderAssignment(a, i))}
+        <button class="add" @click=${this.add}>+ Add</button>
+      ` : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'modulation-panel': ModulationPanel;
+  }
+}
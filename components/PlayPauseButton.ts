@@ -167,11 +167,18 @@ export class PlayPauseButton extends LitElement {
             l0,0c10.7,0,19.5,8.7,19.5,19.5l0,0"/>`;
   }
 
+  /** The loader around a stop square: clicking cancels the reconnect. */
+  private renderReconnecting() {
+    return svg`${this.renderLoading()}<rect x="64" y="48" width="12" height="12" fill="#FEFEFE" />`;
+  }
+
   private renderIcon() {
     if (this.playbackState === 'playing') {
       return this.renderPause();
-    } else if (this.playbackState === 'loading') {
+    } else if (this.playbackState === 'connecting' || this.playbackState === 'buffering') {
       return this.renderLoading();
+    } else if (this.playbackState === 'reconnecting') {
+      return this.renderReconnecting();
     } else {
       return this.renderPlay();
     }
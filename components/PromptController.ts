@@ -4,16 +4,20 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { css, html, LitElement } from 'lit';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement, property, query, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 
 import './WeightKnob';
+import './MidiLearnBadge';
+import './MidiResponseEditor';
 import type { WeightKnob } from './WeightKnob';
 
 import type { MidiDispatcher } from '../utils/MidiDispatcher';
-import type { Prompt, ControlChange } from '../types';
+import type { MidiMappingRegistry } from '../utils/MidiMappingRegistry';
+import { applyResponse, decodeRelative, DEFAULT_RESPONSE, invertResponse, relativeDelta, resolveTakeover } from '../utils/midiResponse';
+import type { Prompt, ControlChange, MidiChannel, MidiResponse, NoteMessage, NoteMode, NrpnMessage } from '../types';
 
-/** A single prompt input associated with a MIDI CC. */
+/** A single prompt input associated with a MIDI CC, NRPN or note. */
 @customElement('prompt-controller')
 export class PromptController extends LitElement {
   static override styles = css`
@@ -50,6 +54,38 @@ export class PromptController extends LitElement {
         visibility: visible;
       }
     }
+    .midi-row {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+    }
+    #note-mode, #channel-select, #curve-toggle {
+      font-family: monospace;
+      font-size: 1.2vmin;
+      border: 0.2vmin solid #fff6;
+      border-radius: 0.5vmin;
+      padding: 2px 4px;
+      color: #fffa;
+      background: #0006;
+      cursor: pointer;
+      user-select: none;
+      margin-top: 0.75vmin;
+      text-transform: uppercase;
+    }
+    #channel-select {
+      outline: none;
+    }
+    .midi-row {
+      position: relative;
+    }
+    midi-response-editor {
+      position: absolute;
+      top: 100%;
+      left: 50%;
+      transform: translateX(-50%);
+      margin-top: 0.5vmin;
+      z-index: 10;
+    }
     .text-container {
       display: flex;
       align-items: center;
@@ -131,6 +167,9 @@ export class PromptController extends LitElement {
       transform: translateY(0);
     }
     .density-label {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
       font-size: 1vmin;
       color: #fff8;
       text-transform: uppercase;
@@ -175,11 +214,17 @@ export class PromptController extends LitElement {
   @property({ type: String }) selectedInstrument = '';
   @property({ type: Boolean, reflect: true }) filtered = false;
 
-  @property({ type: Number }) cc = 0;
-  @property({ type: Number }) channel = 0;
+  @property({ attribute: false }) cc?: number;
+  @property({ attribute: false }) channel: MidiChannel = 'omni';
+  @property({ type: Number }) note?: number;
+  @property({ type: Number }) nrpn?: number;
+  @property({ type: String }) noteMode: NoteMode = 'toggle';
+  @property({ type: Object }) response: MidiResponse = DEFAULT_RESPONSE;
 
-  @property({ type: Boolean }) learnMode = false;
   @property({ type: Boolean }) showCC = false;
+  @state() private showResponseEditor = false;
+  /** Where the hardware would put the weight while it has not caught up yet. */
+  @state() private hardwareWeight: number | null = null;
 
   @query('weight-knob') private weightInput!: WeightKnob;
   @query('#text') private textInput!: HTMLInputElement;
@@ -189,27 +234,148 @@ export class PromptController extends LitElement {
   @property({ type: Object })
   midiDispatcher: MidiDispatcher | null = null;
 
+  @property({ type: Object })
+  midiMappings: MidiMappingRegistry | null = null;
+
   @property({ type: Number }) audioLevel = 0;
 
   private lastValidText!: string;
 
+  /** The last non-zero weight, restored when a note turns the slot back on. */
+  private lastActiveWeight = 1;
+
+  /** The controller's last reported position, 0-1, for soft takeover. */
+  private lastControllerPosition: number | undefined;
+
+  /** When the last relative encoder step arrived, for acceleration. */
+  private lastStepTime = -Infinity;
+
+  private readonly onMappingsChanged = () => this.requestUpdate();
+
+  /** Slot weights learn through the registry, so only one thing learns at a time. */
+  private get weightTarget() {
+    return `${this.promptId}/weight`;
+  }
+
+  private get learnMode() {
+    return this.midiMappings?.learningTarget === this.weightTarget;
+  }
+
   override connectedCallback() {
     super.connectedCallback();
-    this.midiDispatcher?.addEventListener('cc-message', (e: Event) => {
-      const customEvent = e as CustomEvent<ControlChange>;
-      const { channel, cc, value } = customEvent.detail;
-      if (this.learnMode) {
-        this.cc = cc;
-        this.channel = channel;
-        this.learnMode = false;
-        this.dispatchPromptChange();
-      } else if (cc === this.cc) {
-        this.weight = (value / 127) * 2;
-        this.dispatchPromptChange();
+    this.midiMappings?.addEventListener('mappings-changed', this.onMappingsChanged);
+    this.midiDispatcher?.addEventListener('cc-message', this.onControlChange);
+    this.midiDispatcher?.addEventListener('nrpn-message', this.onNrpn);
+    this.midiDispatcher?.addEventListener('note-message', this.onNote);
+    this.registerMidiParameters();
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiMappings?.removeEventListener('mappings-changed', this.onMappingsChanged);
+    this.midiDispatcher?.removeEventListener('cc-message', this.onControlChange);
+    this.midiDispatcher?.removeEventListener('nrpn-message', this.onNrpn);
+    this.midiDispatcher?.removeEventListener('note-message', this.onNote);
+    this.midiMappings?.unregister(`${this.promptId}/density`);
+  }
+
+  private readonly onControlChange = (e: Event) => {
+    const customEvent = e as CustomEvent<ControlChange>;
+    const { channel, cc, value, value14 } = customEvent.detail;
+    if (this.learnMode || this.midiMappings?.learnedCurrentMessage) return;
+    if (this.note === undefined && this.nrpn === undefined && cc === this.cc && this.matchesChannel(channel)) {
+      this.midiDispatcher?.markConsumed(`${this.promptId} weight`);
+      const encoding = this.response.encoding ?? 'absolute';
+      if (value14 === undefined) {
+        if (encoding === 'absolute') this.handleControlValue(value / 127);
+        else this.handleRelative(decodeRelative(value, encoding));
+      } else if (encoding === 'absolute' && this.response.highResolution) {
+        this.handleControlValue(value14 / 0x3fff);
       }
+    }
+  };
+
+  private readonly onNrpn = (e: Event) => {
+    const customEvent = e as CustomEvent<NrpnMessage>;
+    const { channel, parameter, value } = customEvent.detail;
+    if (this.learnMode || this.midiMappings?.learnedCurrentMessage) return;
+    if (this.note === undefined && parameter === this.nrpn && this.matchesChannel(channel)) {
+      this.midiDispatcher?.markConsumed(`${this.promptId} weight`);
+      this.handleControlValue(value / 0x3fff);
+    }
+  };
+
+  private readonly onNote = (e: Event) => {
+    const customEvent = e as CustomEvent<NoteMessage>;
+    const { channel, note, on } = customEvent.detail;
+    if (this.learnMode || this.midiMappings?.learnedCurrentMessage) return;
+    if (note === this.note && this.matchesChannel(channel)) {
+      this.midiDispatcher?.markConsumed(`${this.promptId} weight`);
+      this.handleNote(on);
+    }
+  };
+
+  private registerMidiParameters() {
+    this.midiMappings?.register(`${this.promptId}/density`, {
+      label: `${this.promptId} density`,
+      kind: 'continuous',
+      apply: (value) => {
+        this.density = Math.round(value * 20) / 20;
+        this.dispatchPromptChange();
+      },
+      read: () => this.density,
     });
   }
 
+  private matchesChannel(channel: number) {
+    return this.channel === 'omni' || this.channel === channel;
+  }
+
+  private handleControlValue(incoming: number) {
+    const current = invertResponse(this.weight / 2, this.response);
+    const position = resolveTakeover(this.response.takeover, current, incoming, this.lastControllerPosition);
+    this.lastControllerPosition = incoming;
+    if (position === null) {
+      this.refreshHardwareHint();
+      return;
+    }
+    this.weight = applyResponse(position, this.response) * 2;
+    this.dispatchPromptChange();
+  }
+
+  private handleRelative(steps: number) {
+    if (steps === 0) return;
+    const now = performance.now();
+    const elapsed = now - this.lastStepTime;
+    this.lastStepTime = now;
+    const current = invertResponse(this.weight / 2, this.response);
+    const delta = relativeDelta(steps, this.response.acceleration, elapsed);
+    const position = Math.min(Math.max(current + delta, 0), 1);
+    this.weight = applyResponse(position, this.response) * 2;
+    this.dispatchPromptChange();
+  }
+
+  /** Shows where the hardware sits whenever it no longer matches the weight. */
+  private refreshHardwareHint() {
+    const takeover = this.response.takeover ?? 'jump';
+    if (takeover === 'jump' || this.lastControllerPosition === undefined) {
+      this.hardwareWeight = null;
+      return;
+    }
+    const hardwareWeight = applyResponse(this.lastControllerPosition, this.response) * 2;
+    this.hardwareWeight = Math.abs(hardwareWeight - this.weight) > 0.02 ? hardwareWeight : null;
+  }
+
+  private handleNote(on: boolean) {
+    if (this.noteMode === 'momentary') {
+      this.weight = on ? this.lastActiveWeight : 0;
+    } else {
+      if (!on) return;
+      this.weight = this.weight > 0 ? 0 : this.lastActiveWeight;
+    }
+    this.dispatchPromptChange();
+  }
+
   override firstUpdated() {
     this.textInput.setAttribute('contenteditable', 'plaintext-only');
     this.textInput.textContent = this.text;
@@ -218,7 +384,14 @@ export class PromptController extends LitElement {
 
   update(changedProperties: Map<string, unknown>) {
     if (changedProperties.has('showCC') && !this.showCC) {
-      this.learnMode = false;
+      if (this.learnMode) this.midiMappings?.cancelLearn();
+      this.showResponseEditor = false;
+    }
+    if (changedProperties.has('weight') && this.weight > 0) {
+      this.lastActiveWeight = this.weight;
+    }
+    if (changedProperties.has('weight') || changedProperties.has('response')) {
+      this.refreshHardwareHint();
     }
     if (changedProperties.has('text') && this.textInput && !this.textInput.matches(':focus')) {
       this.textInput.textContent = this.text;
@@ -234,6 +407,11 @@ export class PromptController extends LitElement {
           text: this.text,
           weight: this.weight,
           cc: this.cc,
+          channel: this.channel,
+          note: this.note,
+          nrpn: this.nrpn,
+          noteMode: this.noteMode,
+          response: this.response,
           color: this.color,
           density: this.density,
           instruments: this.instruments,
@@ -311,7 +489,41 @@ export class PromptController extends LitElement {
   }
 
   private toggleLearnMode() {
-    this.learnMode = !this.learnMode;
+    if (this.learnMode) this.midiMappings?.cancelLearn();
+    else this.midiMappings?.startLearn(this.weightTarget);
+  }
+
+  private unmap(e: Event) {
+    e.preventDefault();
+    this.cc = undefined;
+    this.note = undefined;
+    this.nrpn = undefined;
+    this.dispatchPromptChange();
+  }
+
+  private toggleNoteMode() {
+    this.noteMode = this.noteMode === 'toggle' ? 'momentary' : 'toggle';
+    this.dispatchPromptChange();
+  }
+
+  private handleResponseChanged(e: CustomEvent<MidiResponse>) {
+    this.response = e.detail;
+    this.dispatchPromptChange();
+  }
+
+  private handleChannelChange(e: Event) {
+    const select = e.target as HTMLSelectElement;
+    this.channel = select.value === 'omni' ? 'omni' : parseInt(select.value);
+    this.dispatchPromptChange();
+  }
+
+  private renderMidiLabel() {
+    if (this.learnMode) return 'Learn';
+    const channel = this.channel === 'omni' ? 'Omni' : `Ch${this.channel + 1}`;
+    if (this.note !== undefined) return `Note:${this.note} ${channel}`;
+    if (this.nrpn !== undefined) return `NRPN:${this.nrpn} ${channel}`;
+    if (this.cc !== undefined) return `CC:${this.cc} ${channel}`;
+    return 'Unmapped';
   }
 
   override render() {
@@ -326,6 +538,7 @@ export class PromptController extends LitElement {
       <weight-knob
         id="weight"
         value=${this.weight}
+        .hardwareValue=${this.hardwareWeight}
         color=${this.filtered ? '#888' : this.color}
         audioLevel=${this.filtered ? 0 : this.audioLevel}
         @input=${this.updateWeight}></weight-knob>
@@ -350,12 +563,37 @@ export class PromptController extends LitElement {
       </div>
 
       <div class="density-control">
-        <div class="density-label">Density</div>
+        <div class="density-label">
+          Density
+          ${this.showCC ? html`<midi-learn-badge target="${this.promptId}/density" label="Learn" .registry=${this.midiMappings}></midi-learn-badge>` : ''}
+        </div>
         <input type="range" min="0" max="1" step="0.05" .value=${this.density.toString()} @input=${this.handleDensityChange}>
       </div>
 
-      <div id="midi" @click=${this.toggleLearnMode}>
-        ${this.learnMode ? 'Learn' : `CC:${this.cc}`}
+      <div class="midi-row">
+        <div id="midi" title="Click to learn, right-click to unmap" @click=${this.toggleLearnMode} @contextmenu=${this.unmap}>
+          ${this.renderMidiLabel()}
+        </div>
+        ${this.showCC && !this.learnMode ? html`
+          <select id="channel-select" title="MIDI channel" @change=${this.handleChannelChange}>
+            <option value="omni" ?selected=${this.channel === 'omni'}>Omni</option>
+            ${Array.from({ length: 16 }, (_, i) => html`<option value=${i} ?selected=${this.channel === i}>Ch${i + 1}</option>`)}
+          </select>
+        ` : ''}
+        ${this.showCC && !this.learnMode && this.note !== undefined ? html`
+          <div id="note-mode" title="Toggle or momentary" @click=${this.toggleNoteMode}>
+            ${this.noteMode === 'toggle' ? 'Tgl' : 'Mom'}
+          </div>
+        ` : ''}
+        ${this.showCC && !this.learnMode && this.note === undefined ? html`
+          <div id="curve-toggle" title="Response curve" @click=${() => this.showResponseEditor = !this.showResponseEditor}>~</div>
+        ` : ''}
+        ${this.showCC && this.showResponseEditor ? html`
+          <midi-response-editor
+            .response=${this.response}
+            scale="2"
+            @response-changed=${this.handleResponseChanged}></midi-response-editor>
+        ` : ''}
       </div>
     </div>`;
   }
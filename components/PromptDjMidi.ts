@@ -12,8 +12,67 @@ import { throttle } from '../utils/throttle';
 import './PromptController';
 import './PlayPauseButton';
 import './InfluenceMonitor';
-import type { PlaybackState, Prompt } from '../types';
+import './MidiLearnBadge';
+import './MidiMonitor';
+import './ModulationPanel';
+import './GenerationConfigPanel';
+import './VirtualController';
+import type { BufferStats, ContextResetState, ControllerProfile, GenerationConfig, MidiMapping, MidiSource, MixerProgram, PlaybackState, ProfileMapping, ProgramChange, Prompt, TransportMessage } from '../types';
+import {
+  BUILT_IN_PROFILES,
+  findProfileForDevice,
+  loadStoredProfiles,
+  parseProfile,
+  PROFILE_VERSION,
+  saveStoredProfiles,
+  serializeProfile,
+} from '../utils/ControllerProfiles';
+import {
+  CONTINUOUS_CONFIG_PARAMETERS,
+  DEFAULT_GENERATION_CONFIG,
+  randomSeed,
+  SCALES,
+  STEM_CONFIG_PARAMETERS,
+} from '../utils/GenerationConfig';
 import { MidiDispatcher } from '../utils/MidiDispatcher';
+import { MidiMappingRegistry, sourcesConflict } from '../utils/MidiMappingRegistry';
+import { ModulationMatrix } from '../utils/ModulationMatrix';
+import { applyProgram, captureProgram, formatProgramNumber, loadStoredPrograms, saveStoredPrograms } from '../utils/ProgramStore';
+import { VIRTUAL_INPUT_ID, VirtualMidiInput } from '../utils/VirtualMidiInput';
+import { DEFAULT_RESPONSE, invertResponse } from '../utils/midiResponse';
+
+/** Replay buffer lengths on offer, in seconds. */
+const REPLAY_LENGTHS = [60, 2 * 60, 5 * 60, 10 * 60];
+
+function formatDuration(totalSeconds: number) {
+  const seconds = Math.floor(totalSeconds);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/** The message a slot's weight responds to, or null if it is unmapped. */
+function slotSource(prompt: Prompt): MidiSource | null {
+  const { channel } = prompt;
+  if (prompt.note !== undefined) return { type: 'note', channel, note: prompt.note };
+  if (prompt.nrpn !== undefined) return { type: 'nrpn', channel, parameter: prompt.nrpn };
+  if (prompt.cc !== undefined) return { type: 'cc', channel, cc: prompt.cc };
+  return null;
+}
+
+function bindSlot(prompt: Prompt, source: MidiSource | null): Prompt {
+  return {
+    ...prompt,
+    channel: source?.channel ?? prompt.channel,
+    cc: source?.type === 'cc' ? source.cc : undefined,
+    note: source?.type === 'note' ? source.note : undefined,
+    nrpn: source?.type === 'nrpn' ? source.parameter : undefined,
+  };
+}
+
+/** Just above LiveMusicHelper's prompt throttle, so no batched update is dropped. */
+const MODULATION_UPDATE_MS = 250;
+
+/** How long the tempo indicator shows a context reset as applied. */
+const CONTEXT_RESET_SHOWN_MS = 2000;
 
 /** The grid of prompt inputs. */
 @customElement('prompt-dj-midi')
@@ -75,6 +134,21 @@ export class PromptDjMidi extends LitElement {
     #tempo-slider {
       width: 15vmin;
       accent-color: #00ffcc;
+      &:disabled {
+        opacity: 0.4;
+        cursor: not-allowed;
+      }
+    }
+    .context-reset {
+      font-size: 1.2vmin;
+      color: #00ffcc;
+      &.pending {
+        color: #ffcc00;
+      }
+    }
+    .tempo-container button {
+      font-size: 1.2vmin;
+      padding: 2px 6px;
     }
     #main-content {
       display: flex;
@@ -193,7 +267,10 @@ export class PromptDjMidi extends LitElement {
     }
     #buttons {
       display: flex;
+      flex-wrap: wrap;
+      align-items: center;
       gap: 10px;
+      max-width: 60%;
     }
     button {
       font: inherit;
@@ -212,6 +289,109 @@ export class PromptDjMidi extends LitElement {
         color: #000;
       }
     }
+    .instrument-row {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+      button {
+        font-size: 1.2vmin;
+        padding: 0.6vmin 1vmin;
+        border-color: #fff3;
+      }
+    }
+    .genre-midi {
+      display: flex;
+      gap: 0.5vmin;
+      flex-wrap: wrap;
+    }
+    #programs {
+      display: flex;
+      align-items: center;
+      gap: 0.8vmin;
+      font-size: 1.4vmin;
+      select {
+        flex: 1;
+        min-width: 0;
+        background: #000;
+        color: #fff;
+        border: 1px solid #fff3;
+        border-radius: 0.6vmin;
+        padding: 0.5vmin;
+      }
+      input[type=number] {
+        width: 7vmin;
+        background: #000;
+        color: #fff;
+        border: 1px solid #fff3;
+        border-radius: 0.6vmin;
+        padding: 0.5vmin;
+      }
+      button {
+        font-size: 1.2vmin;
+        padding: 0.5vmin 1vmin;
+      }
+      label {
+        display: flex;
+        align-items: center;
+        gap: 0.4vmin;
+        color: #fff8;
+        white-space: nowrap;
+      }
+    }
+    .footer-midi {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.5vmin;
+    }
+    #replay-settings {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+      font-size: 1.1vmin;
+      color: #fff8;
+      select {
+        font: inherit;
+        background: #000;
+        color: #fff;
+        border: 1px solid #fff3;
+        border-radius: 0.4vmin;
+      }
+    }
+    #buffer-stats {
+      display: grid;
+      grid-template-columns: auto auto;
+      gap: 0.3vmin 1vmin;
+      font-size: 1.1vmin;
+      font-family: monospace;
+      color: #fff8;
+      .warn {
+        color: #f66;
+      }
+      input {
+        width: 4.5vmin;
+        font: inherit;
+        background: #000;
+        color: #fff;
+        border: 1px solid #fff3;
+        border-radius: 0.4vmin;
+      }
+    }
+    #record, #capture {
+      font-size: 1.4vmin;
+      min-width: 9vmin;
+      &.active {
+        background: #f33;
+        border-color: #f33;
+        color: #fff;
+      }
+    }
+    virtual-controller {
+      position: absolute;
+      left: 4vmin;
+      bottom: 4vmin;
+      z-index: 30;
+    }
     #controls-footer {
       position: absolute;
       bottom: 4vmin;
@@ -223,15 +403,38 @@ export class PromptDjMidi extends LitElement {
   `;
 
   private prompts: Map<string, Prompt>;
-  private midiDispatcher: MidiDispatcher;
+  public readonly midiDispatcher: MidiDispatcher;
+  public readonly midiMappings: MidiMappingRegistry;
+  private readonly modulation: ModulationMatrix;
+  private modulationTimer: number | null = null;
+  private contextResetTimer: number | null = null;
+  private readonly virtualInput: VirtualMidiInput;
   private genreLibrary: {text: string, color: string, instruments?: string[]}[] = [];
 
   @property({ type: Boolean }) private showMidi = false;
   @property({ type: String }) public playbackState: PlaybackState = 'stopped';
+  @property({ type: Boolean }) public recording = false;
+  @property({ type: Number }) public recordedSeconds = 0;
+  @property({ type: Number }) public replaySeconds = 0;
+  @property({ type: Number }) public replayMaxSeconds = 0;
+  @property({ type: Number }) public replayMemoryBytes = 0;
+  @property({ type: Object }) public bufferStats: BufferStats | null = null;
+  @property({ type: String }) public contextReset: ContextResetState = 'idle';
   @state() public audioLevel = 0;
   @state() private midiInputIds: string[] = [];
-  @state() private activeMidiInputId: string | null = null;
+  @state() private enabledMidiInputIds: string[] = [];
+  @state() private midiOutputIds: string[] = [];
+  @state() private activeMidiOutputId: string | null = null;
+  @state() private clockOutputId: string | null = null;
   @state() private tempoBpm = 120;
+  @state() private generationConfig: GenerationConfig = { ...DEFAULT_GENERATION_CONFIG };
+  @state() private externalClock = false;
+  @state() private sysexEnabled = false;
+  @state() private storedProfiles: ControllerProfile[] = loadStoredProfiles();
+  @state() private activeProfileName: string | null = null;
+  @state() private storedPrograms: MixerProgram[] = loadStoredPrograms();
+  @state() private activeProgramNumber: number | null = null;
+  @state() private bankSelectEnabled = false;
 
   @property({ type: Object })
   private filteredPrompts = new Set<string>();
@@ -244,6 +447,99 @@ export class PromptDjMidi extends LitElement {
     this.prompts = initialPrompts;
     this.genreLibrary = genreLibrary;
     this.midiDispatcher = new MidiDispatcher();
+    this.midiDispatcher.addEventListener('devices-changed', () => {
+      this.refreshMidiDevices();
+      // The active output may be new, or back after being unplugged.
+      this.sendMidiFeedback();
+    });
+    this.midiDispatcher.addEventListener('clock-tempo', (e: Event) => {
+      this.handleClockTempo((e as CustomEvent<number>).detail);
+    });
+    this.midiDispatcher.addEventListener('transport-message', (e: Event) => {
+      this.handleTransport((e as CustomEvent<TransportMessage>).detail);
+    });
+    this.midiDispatcher.addEventListener('device-connected', (e: Event) => {
+      this.autoLoadProfile((e as CustomEvent<string>).detail);
+    });
+    this.midiDispatcher.addEventListener('device-identified', (e: Event) => {
+      this.requestUpdate();
+      this.autoLoadProfile((e as CustomEvent<string>).detail);
+    });
+    this.midiDispatcher.addEventListener('program-change', (e: Event) => {
+      this.handleProgramChange((e as CustomEvent<ProgramChange>).detail);
+    });
+    this.midiDispatcher.addEventListener('sysex-denied', () => {
+      this.sysexEnabled = false;
+      this.dispatchEvent(new CustomEvent('error', { detail: 'SysEx permission denied, using plain MIDI access.' }));
+    });
+    this.midiMappings = new MidiMappingRegistry(this.midiDispatcher);
+    this.midiMappings.addEventListener('mapping-learned', (e: Event) => {
+      this.handleMappingLearned((e as CustomEvent<MidiMapping>).detail);
+    });
+    this.virtualInput = new VirtualMidiInput(this.midiDispatcher);
+    this.modulation = new ModulationMatrix(this.midiDispatcher);
+    this.modulation.addEventListener('change', () => this.scheduleModulationUpdate());
+    this.registerMidiParameters();
+  }
+
+  /** Exposes the global controls and per-slot instrument choice to MIDI learn. */
+  private registerMidiParameters() {
+    this.midiMappings.register('tempo', {
+      label: 'Tempo',
+      kind: 'continuous',
+      apply: (value) => {
+        if (!this.externalClock) this.setTempo(Math.round(60 + value * 140));
+      },
+      read: () => (this.tempoBpm - 60) / 140,
+    });
+    this.registerGenerationConfigParameters();
+    this.midiMappings.register('play-pause', {
+      label: 'Play / Pause',
+      kind: 'trigger',
+      apply: () => this.playPause(),
+    });
+    this.midiMappings.register('record', {
+      label: 'Record',
+      kind: 'trigger',
+      apply: () => this.toggleRecording(),
+    });
+    this.midiMappings.register('replay-capture', {
+      label: 'Capture replay',
+      kind: 'trigger',
+      apply: () => this.captureReplay(),
+    });
+    this.midiMappings.register('midi-toggle', {
+      label: 'MIDI toggle',
+      kind: 'trigger',
+      apply: () => this.setShowMidi(!this.showMidi),
+    });
+    for (const promptId of this.prompts.keys()) {
+      this.midiMappings.register(`${promptId}/instrument`, {
+        label: `${promptId} instrument`,
+        kind: 'continuous',
+        apply: (value) => {
+          const instruments = this.prompts.get(promptId)?.instruments ?? [];
+          const index = Math.min(Math.floor(value * instruments.length), instruments.length - 1);
+          if (index >= 0) this.setInstrument(promptId, instruments[index]);
+        },
+        read: () => {
+          const prompt = this.prompts.get(promptId);
+          const instruments = prompt?.instruments ?? [];
+          if (instruments.length === 0) return 0;
+          return (Math.max(instruments.indexOf(prompt?.selectedInstrument ?? ''), 0) + 0.5) / instruments.length;
+        },
+      });
+      this.midiMappings.register(`${promptId}/instrument-next`, {
+        label: `${promptId} next instrument`,
+        kind: 'trigger',
+        apply: () => this.stepInstrument(promptId, 1),
+      });
+      this.midiMappings.register(`${promptId}/instrument-prev`, {
+        label: `${promptId} previous instrument`,
+        kind: 'trigger',
+        apply: () => this.stepInstrument(promptId, -1),
+      });
+    }
   }
 
   private handlePromptChanged(e: CustomEvent<Prompt>) {
@@ -260,25 +556,172 @@ export class PromptDjMidi extends LitElement {
 
     this.prompts = newPrompts;
     this.requestUpdate();
+    this.sendMidiFeedback();
+
+    this.dispatchPromptsChanged();
+  }
+
+  /**
+   * Slot weights keep their bindings on the prompts rather than in the
+   * registry: a slot that learned takes its source from there, and any other
+   * slot bound to the learned message is unmapped.
+   */
+  private handleMappingLearned(mapping: MidiMapping) {
+    const [promptId, param] = mapping.target.split('/');
+    const learningSlot = param === 'weight' && this.prompts.has(promptId) ? promptId : null;
+    const newPrompts = new Map(this.prompts);
+    for (const prompt of newPrompts.values()) {
+      const source = slotSource(prompt);
+      if (prompt.promptId !== learningSlot && source && sourcesConflict(source, mapping.source)) {
+        newPrompts.set(prompt.promptId, bindSlot(prompt, null));
+      }
+    }
+    if (learningSlot) {
+      newPrompts.set(learningSlot, bindSlot(newPrompts.get(learningSlot)!, mapping.source));
+      this.midiMappings.clearMapping(mapping.target);
+    }
+    this.prompts = newPrompts;
+    this.requestUpdate();
+    this.sendMidiFeedback();
+    this.dispatchPromptsChanged();
+  }
+
+  /** Mirrors every slot's weight back onto the controller's LEDs and faders. */
+  private sendMidiFeedback() {
+    if (!this.showMidi) return;
+    for (const prompt of this.prompts.values()) {
+      const { channel } = prompt;
+      if (prompt.note !== undefined) {
+        this.midiDispatcher.sendNote(channel, prompt.note, prompt.weight > 0);
+      } else if (prompt.cc !== undefined && prompt.nrpn === undefined && (prompt.response?.encoding ?? 'absolute') === 'absolute') {
+        const position = invertResponse(prompt.weight / 2, prompt.response);
+        this.midiDispatcher.sendControlChange(channel, prompt.cc, Math.round(position * 127));
+      }
+    }
+  }
+
+  /** Sends the prompts with modulation applied; the base values stay on `this.prompts`. */
+  private dispatchPromptsChanged() {
+    this.dispatchEvent(new CustomEvent('prompts-changed', { detail: this.modulation.apply(this.prompts) }));
+  }
+
+  /**
+   * Modulation arrives far faster than prompts can be sent, so updates are
+   * batched at MODULATION_UPDATE_MS. Sending after the wait, rather than
+   * before it, means the value a wheel springs back to is never dropped.
+   */
+  private scheduleModulationUpdate() {
+    this.requestUpdate();
+    if (this.modulationTimer !== null) return;
+    this.modulationTimer = window.setTimeout(() => {
+      this.modulationTimer = null;
+      this.dispatchPromptsChanged();
+    }, MODULATION_UPDATE_MS);
+  }
+
+  /** Continuous settings span their range; scale steps through the keys, the rest toggle. */
+  private registerGenerationConfigParameters() {
+    for (const { key, label, min, max, step, fallback } of CONTINUOUS_CONFIG_PARAMETERS) {
+      this.midiMappings.register(`config/${key}`, {
+        label,
+        kind: 'continuous',
+        apply: (value) => this.setGenerationConfig({ [key]: Math.round((min + value * (max - min)) / step) * step }),
+        read: () => ((this.generationConfig[key] ?? fallback) - min) / (max - min),
+      });
+    }
+    this.midiMappings.register('config/scale', {
+      label: 'Scale',
+      kind: 'continuous',
+      apply: (value) => {
+        const index = Math.min(Math.floor(value * SCALES.length), SCALES.length - 1);
+        this.setGenerationConfig({ scale: index === 0 ? undefined : SCALES[index].value });
+      },
+      read: () => {
+        const index = SCALES.findIndex((s) => s.value === this.generationConfig.scale);
+        return (Math.max(index, 0) + 0.5) / SCALES.length;
+      },
+    });
+    this.midiMappings.register('config/seed-random', {
+      label: 'Random seed',
+      kind: 'trigger',
+      apply: () => this.setGenerationConfig({ seed: randomSeed() }),
+    });
+    for (const { key, label } of STEM_CONFIG_PARAMETERS) {
+      this.midiMappings.register(`config/${key}`, {
+        label,
+        kind: 'trigger',
+        apply: () => this.setGenerationConfig({ [key]: !this.generationConfig[key] }),
+      });
+    }
+  }
 
-    this.dispatchEvent(new CustomEvent('prompts-changed', { detail: this.prompts }));
+  private setGenerationConfig(patch: GenerationConfig) {
+    this.generationConfig = { ...this.generationConfig, ...patch };
+    this.dispatchEvent(new CustomEvent<GenerationConfig>('config-changed', { detail: patch }));
   }
 
   private handleTempoInput(e: Event) {
-    const val = parseInt((e.target as HTMLInputElement).value);
+    this.setTempo(parseInt((e.target as HTMLInputElement).value));
+  }
+
+  private setTempo(val: number) {
+    if (val === this.tempoBpm) return;
     this.tempoBpm = val;
     this.dispatchEvent(new CustomEvent('tempo-changed', { detail: val }));
   }
 
+  private async toggleExternalClock() {
+    this.externalClock = !this.externalClock;
+    if (this.externalClock && !this.midiDispatcher.hasAccess) {
+      await this.setShowMidi(true);
+      if (!this.midiDispatcher.hasAccess) this.externalClock = false;
+    }
+  }
+
+  private handleClockTempo(bpm: number) {
+    if (!this.externalClock) return;
+    this.setTempo(Math.round(Math.min(Math.max(bpm, 60), 200)));
+  }
+
+  /** Follows the master's transport, only toggling when our state disagrees. */
+  private handleTransport(message: TransportMessage) {
+    if (!this.externalClock) return;
+    const running = this.playbackState === 'playing'
+      || this.playbackState === 'connecting'
+      || this.playbackState === 'buffering'
+      || this.playbackState === 'reconnecting';
+    const shouldRun = message !== 'stop';
+    this.midiDispatcher.markConsumed('transport');
+    if (running !== shouldRun) this.playPause();
+  }
+
   private handleInstrumentChange(promptId: string, event: Event) {
     const select = event.target as HTMLSelectElement;
+    this.setInstrument(promptId, select.value);
+  }
+
+  private setInstrument(promptId: string, instrument: string) {
     const prompt = this.prompts.get(promptId);
-    if (prompt) {
-      prompt.selectedInstrument = select.value;
+    if (prompt && prompt.selectedInstrument !== instrument) {
+      prompt.selectedInstrument = instrument;
       this.handlePromptChanged(new CustomEvent('prompt-changed', { detail: prompt }));
     }
   }
 
+  private stepInstrument(promptId: string, delta: number) {
+    const prompt = this.prompts.get(promptId);
+    const instruments = prompt?.instruments ?? [];
+    if (!prompt || instruments.length === 0) return;
+    const current = Math.max(instruments.indexOf(prompt.selectedInstrument ?? ''), 0);
+    const next = (current + delta + instruments.length) % instruments.length;
+    this.setInstrument(promptId, instruments[next]);
+  }
+
+  private renderLearnBadge(target: string, label = 'MIDI') {
+    if (!this.showMidi) return '';
+    return html`<midi-learn-badge target=${target} label=${label} .registry=${this.midiMappings}></midi-learn-badge>`;
+  }
+
   private readonly makeBackground = throttle(() => {
     const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
     const MAX_WEIGHT = 0.5;
@@ -299,31 +742,322 @@ export class PromptDjMidi extends LitElement {
     this.showMidi = show;
     if (!this.showMidi) return;
     try {
-      const inputIds = await this.midiDispatcher.getMidiAccess();
-      this.midiInputIds = inputIds;
-      this.activeMidiInputId = this.midiDispatcher.activeMidiInputId;
+      await this.midiDispatcher.getMidiAccess();
     } catch (e: any) {
-      this.showMidi = false;
-      this.dispatchEvent(new CustomEvent('error', {detail: e.message}));
+      // The on-screen controller needs no Web MIDI, so fall back to it alone.
+      this.midiDispatcher.setInputEnabled(VIRTUAL_INPUT_ID, true);
+      this.dispatchEvent(new CustomEvent('error', {detail: `${e.message} Only the on-screen controller is available.`}));
     }
+    this.refreshMidiDevices();
+    this.sendMidiFeedback();
+  }
+
+  private refreshMidiDevices() {
+    this.midiInputIds = this.midiDispatcher.inputIds;
+    this.enabledMidiInputIds = this.midiDispatcher.enabledInputIds;
+    this.midiOutputIds = this.midiDispatcher.outputIds;
+    this.activeMidiOutputId = this.midiDispatcher.activeMidiOutputId;
+    this.clockOutputId = this.midiDispatcher.clockOutputId;
   }
 
+  /** Each option toggles its device; the select itself always rests on the summary. */
   private handleMidiInputChange(event: Event) {
     const selectElement = event.target as HTMLSelectElement;
-    this.midiDispatcher.activeMidiInputId = selectElement.value;
+    const id = selectElement.value;
+    selectElement.value = '';
+    if (!id) return;
+    this.midiDispatcher.setInputEnabled(id, !this.midiDispatcher.isInputEnabled(id));
+    this.enabledMidiInputIds = this.midiDispatcher.enabledInputIds;
+  }
+
+  private handleMidiOutputChange(event: Event) {
+    const selectElement = event.target as HTMLSelectElement;
+    this.midiDispatcher.activeMidiOutputId = selectElement.value;
+    this.activeMidiOutputId = selectElement.value;
+    this.sendMidiFeedback();
+  }
+
+  private get allProfiles(): ControllerProfile[] {
+    return [...this.storedProfiles, ...BUILT_IN_PROFILES];
+  }
+
+  /** Loads the first stored, then built-in, profile matching a newly connected device. */
+  private autoLoadProfile(inputId: string) {
+    const deviceName = this.midiDispatcher.getDeviceName(inputId);
+    if (!deviceName) return;
+    const identity = this.midiDispatcher.getIdentity(inputId);
+    const profile = findProfileForDevice(deviceName, this.allProfiles, identity);
+    if (profile && profile.name !== this.activeProfileName) this.applyProfile(profile);
+  }
+
+  /** Captures every slot and registry mapping as a profile. */
+  private buildProfile(name: string, deviceMatch: string): ControllerProfile {
+    const mappings: ProfileMapping[] = [...this.prompts.values()].flatMap((p) => {
+      const source = slotSource(p);
+      return source ? [{ target: `${p.promptId}/weight`, source, noteMode: p.noteMode, response: p.response }] : [];
+    });
+    return {
+      version: PROFILE_VERSION,
+      name,
+      deviceMatch,
+      mappings: [...mappings, ...this.midiMappings.allMappings],
+    };
+  }
+
+  private applyProfile(profile: ControllerProfile) {
+    const newPrompts = new Map(this.prompts);
+    const registryMappings = [];
+    for (const mapping of profile.mappings) {
+      const [promptId, param] = mapping.target.split('/');
+      const prompt = newPrompts.get(promptId);
+      if (param !== 'weight' || !prompt) {
+        registryMappings.push(mapping);
+        continue;
+      }
+      newPrompts.set(promptId, {
+        ...bindSlot(prompt, mapping.source),
+        noteMode: mapping.noteMode,
+        response: mapping.response,
+      });
+    }
+    this.midiMappings.replaceMappings(registryMappings);
+    this.prompts = newPrompts;
+    this.activeProfileName = profile.name;
+    this.requestUpdate();
+    this.sendMidiFeedback();
+    this.dispatchPromptsChanged();
+  }
+
+  private handleProfileSelect(event: Event) {
+    const select = event.target as HTMLSelectElement;
+    const profile = this.allProfiles[parseInt(select.value)];
+    select.value = '';
+    if (profile) this.applyProfile(profile);
+  }
+
+  private saveProfile() {
+    const firstInput = this.midiDispatcher.enabledInputIds[0];
+    const defaultDevice = firstInput ? this.midiDispatcher.getDeviceName(firstInput) ?? '' : '';
+    const name = window.prompt('Profile name', this.activeProfileName ?? defaultDevice);
+    if (!name) return;
+    const deviceMatch = window.prompt('Load automatically for devices named', defaultDevice) ?? '';
+    const profile = this.buildProfile(name, deviceMatch);
+    const identity = firstInput ? this.midiDispatcher.getIdentity(firstInput) : undefined;
+    if (identity) {
+      const { manufacturerId, family, model } = identity;
+      profile.identity = { manufacturerId, family, model };
+    }
+    this.storedProfiles = [profile, ...this.storedProfiles.filter((p) => p.name !== name)];
+    saveStoredProfiles(this.storedProfiles);
+    this.activeProfileName = name;
+  }
+
+  private exportProfile() {
+    const name = this.activeProfileName ?? 'PromptDJ MIDI';
+    const profile = this.storedProfiles.find((p) => p.name === name) ?? this.buildProfile(name, '');
+    const url = URL.createObjectURL(new Blob([serializeProfile(profile)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name.replace(/[^\w-]+/g, '_')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private async importProfile(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    try {
+      const profile = parseProfile(await file.text());
+      this.storedProfiles = [profile, ...this.storedProfiles.filter((p) => p.name !== profile.name)];
+      saveStoredProfiles(this.storedProfiles);
+      this.applyProfile(profile);
+    } catch (e: any) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+    }
+  }
+
+  private renderProfileControls() {
+    if (!this.showMidi) return '';
+    return html`
+      <select @change=${this.handleProfileSelect} title="Controller profile">
+        <option value="" selected>${this.activeProfileName ?? 'Profile…'}</option>
+        ${this.allProfiles.map((p, i) => html`<option value=${i}>${p.name}</option>`)}
+      </select>
+      <button @click=${this.saveProfile}>Save</button>
+      <button @click=${() => this.shadowRoot?.querySelector<HTMLInputElement>('#profile-file')?.click()}>Import</button>
+      <button @click=${this.exportProfile}>Export</button>
+      <input id="profile-file" type="file" accept=".json,application/json" hidden @change=${this.importProfile}>
+    `;
+  }
+
+  private handleProgramChange({ bank, program }: ProgramChange) {
+    const number = bank * 128 + program;
+    if (!this.storedPrograms.some((p) => p.number === number)) return;
+    this.midiDispatcher.markConsumed(`program ${formatProgramNumber(number)}`);
+    this.recallProgram(number);
+  }
+
+  /** Restores a program's slots and tempo; slot MIDI mappings are kept. */
+  private recallProgram(number: number) {
+    const program = this.storedPrograms.find((p) => p.number === number);
+    if (!program) return;
+    this.prompts = applyProgram(program, this.prompts);
+    this.activeProgramNumber = number;
+    if (!this.externalClock) this.setTempo(program.tempoBpm);
+    this.requestUpdate();
+    this.sendMidiFeedback();
+    this.dispatchPromptsChanged();
+  }
+
+  private storeProgram() {
+    const input = this.shadowRoot?.querySelector<HTMLInputElement>('#program-number');
+    const number = Math.max(0, (parseInt(input?.value ?? '') || 1) - 1);
+    const existing = this.storedPrograms.find((p) => p.number === number);
+    const name = window.prompt(`Store program ${formatProgramNumber(number)} as`, existing?.name ?? '');
+    if (name === null) return;
+    const program = captureProgram(number, name, this.prompts, this.tempoBpm);
+    this.storedPrograms = [...this.storedPrograms.filter((p) => p.number !== number), program]
+      .sort((a, b) => a.number - b.number);
+    saveStoredPrograms(this.storedPrograms);
+    this.activeProgramNumber = number;
+  }
+
+  private deleteProgram() {
+    if (this.activeProgramNumber === null) return;
+    this.storedPrograms = this.storedPrograms.filter((p) => p.number !== this.activeProgramNumber);
+    saveStoredPrograms(this.storedPrograms);
+    this.activeProgramNumber = null;
+  }
+
+  private handleProgramSelect(event: Event) {
+    const select = event.target as HTMLSelectElement;
+    if (select.value) this.recallProgram(parseInt(select.value));
+  }
+
+  private toggleBankSelect(event: Event) {
+    this.bankSelectEnabled = (event.target as HTMLInputElement).checked;
+    this.midiDispatcher.bankSelectEnabled = this.bankSelectEnabled;
+  }
+
+  private renderProgramControls() {
+    return html`
+      <div id="programs">
+        <select @change=${this.handleProgramSelect} title="Recall program">
+          <option value="" ?selected=${this.activeProgramNumber === null}>Programs…</option>
+          ${this.storedPrograms.map((p) => html`
+            <option value=${p.number} ?selected=${this.activeProgramNumber === p.number}>
+              ${formatProgramNumber(p.number)} ${p.name}
+            </option>
+          `)}
+        </select>
+        <input id="program-number" type="number" min="1" max="16384" title="Program number; above 128 selects a bank" .value=${String((this.activeProgramNumber ?? 0) + 1)}>
+        <button @click=${this.storeProgram} title="Store the current mix">Store</button>
+        <button @click=${this.deleteProgram} ?disabled=${this.activeProgramNumber === null} title="Delete the selected program">✕</button>
+        ${this.showMidi ? html`
+          <label title="Treat CC 0/32 as Bank Select instead of controller input">
+            <input type="checkbox" .checked=${this.bankSelectEnabled} @change=${this.toggleBankSelect}> Bank
+          </label>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private async toggleSysex() {
+    this.sysexEnabled = !this.sysexEnabled;
+    try {
+      await this.midiDispatcher.setSysexEnabled(this.sysexEnabled);
+      this.refreshMidiDevices();
+    } catch (e: any) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+    }
+  }
+
+  private describeInput(id: string) {
+    const name = this.midiDispatcher.getDeviceName(id);
+    const identity = this.midiDispatcher.getIdentity(id);
+    if (!identity) return name;
+    const family = identity.family.toString(16).padStart(4, '0');
+    const model = identity.model.toString(16).padStart(4, '0');
+    return `${name} (${identity.manufacturer} ${family}:${model} v${identity.version})`;
+  }
+
+  private handleClockOutputChange(event: Event) {
+    const selectElement = event.target as HTMLSelectElement;
+    const id = selectElement.value || null;
+    this.midiDispatcher.clockOutputId = id;
+    this.clockOutputId = id;
   }
 
   private playPause() {
     this.dispatchEvent(new CustomEvent('play-pause'));
   }
 
+  private toggleRecording() {
+    this.dispatchEvent(new CustomEvent('record-toggle'));
+  }
+
+  private captureReplay() {
+    this.dispatchEvent(new CustomEvent('replay-capture'));
+  }
+
+  private handleBufferBoundChange(bound: 'min' | 'max', event: Event) {
+    if (!this.bufferStats) return;
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    if (isNaN(value)) return;
+    const bounds = { min: this.bufferStats.min, max: this.bufferStats.max, [bound]: value };
+    this.dispatchEvent(new CustomEvent('buffer-bounds-changed', { detail: bounds }));
+  }
+
+  private renderBufferStats() {
+    const stats = this.bufferStats;
+    if (!stats) return '';
+    return html`
+      <div id="buffer-stats" title="Playback buffer: ahead / target, arrival jitter, underruns">
+        <span>Buffer ${stats.bufferedAhead.toFixed(1)}/${stats.target.toFixed(1)}s</span>
+        <span>Jitter ${Math.round(stats.jitter * 1000)}ms</span>
+        <span class=${stats.underruns > 0 ? 'warn' : ''}>${stats.underruns} underruns</span>
+        <label>Min <input type="number" min="0" max="10" step="0.5" .value=${String(stats.min)}
+          @change=${(e: Event) => this.handleBufferBoundChange('min', e)}></label>
+        <label>Max <input type="number" min="0.5" max="20" step="0.5" .value=${String(stats.max)}
+          @change=${(e: Event) => this.handleBufferBoundChange('max', e)}></label>
+      </div>
+    `;
+  }
+
+  private handleReplayLengthChange(event: Event) {
+    const select = event.target as HTMLSelectElement;
+    this.dispatchEvent(new CustomEvent('replay-length-changed', { detail: parseInt(select.value) }));
+  }
+
   public addFilteredPrompt(prompt: string) {
     this.filteredPrompts = new Set([...this.filteredPrompts, prompt]);
   }
 
+  override updated(changed: Map<string, unknown>) {
+    if (!changed.has('contextReset')) return;
+    if (this.contextResetTimer !== null) window.clearTimeout(this.contextResetTimer);
+    this.contextResetTimer = null;
+    if (this.contextReset === 'applied') {
+      this.contextResetTimer = window.setTimeout(() => this.contextReset = 'idle', CONTEXT_RESET_SHOWN_MS);
+    }
+  }
+
+  private renderContextReset() {
+    switch (this.contextReset) {
+      case 'pending':
+        return html`<div class="context-reset pending" title="Tempo and scale changes apply once the model's context resets">Change pending…</div>`;
+      case 'applied':
+        return html`<div class="context-reset">Applied</div>`;
+      default:
+        return '';
+    }
+  }
+
   override render() {
     const bg = styleMap({ backgroundImage: this.makeBackground() });
-    const activePrompts = [...this.prompts.values()].filter(p => p.weight > 0);
+    const activePrompts = [...this.modulation.apply(this.prompts).values()].filter(p => p.weight > 0);
 
     return html`
       <div id="background" style=${bg}></div>
@@ -331,15 +1065,32 @@ export class PromptDjMidi extends LitElement {
       <header>
         <div id="buttons">
           <button @click=${() => this.setShowMidi(!this.showMidi)} class=${this.showMidi ? 'active' : ''}>MIDI</button>
-          <select @change=${this.handleMidiInputChange} .value=${this.activeMidiInputId || ''} style=${this.showMidi ? '' : 'visibility: hidden'}>
-            ${this.midiInputIds.map(id => html`<option value=${id}>${this.midiDispatcher.getDeviceName(id)}</option>`)}
+          ${this.renderLearnBadge('midi-toggle')}
+          <select @change=${this.handleMidiInputChange} style=${this.showMidi ? '' : 'visibility: hidden'} title="MIDI inputs">
+            <option value="" selected>Inputs ${this.enabledMidiInputIds.length}/${this.midiInputIds.length}</option>
+            ${this.midiInputIds.map(id => {
+              const enabled = this.enabledMidiInputIds.includes(id);
+              return html`<option value=${id}>${enabled ? '●' : '○'} ${this.describeInput(id)}</option>`;
+            })}
+          </select>
+          <select @change=${this.handleMidiOutputChange} .value=${this.activeMidiOutputId || ''} style=${this.showMidi ? '' : 'visibility: hidden'} title="MIDI output">
+            ${this.midiOutputIds.map(id => html`<option value=${id}>${this.midiDispatcher.getOutputName(id)}</option>`)}
+          </select>
+          <select @change=${this.handleClockOutputChange} style=${this.showMidi ? '' : 'visibility: hidden'} title="MIDI clock output">
+            <option value="" ?selected=${this.clockOutputId === null}>Clock out: off</option>
+            ${this.midiOutputIds.map(id => html`<option value=${id} ?selected=${this.clockOutputId === id}>Clock → ${this.midiDispatcher.getOutputName(id)}</option>`)}
           </select>
+          ${this.showMidi ? html`<button @click=${this.toggleSysex} class=${this.sysexEnabled ? 'active' : ''} title="Identify devices via SysEx">SysEx</button>` : ''}
+          ${this.renderProfileControls()}
         </div>
 
         <div class="tempo-container">
           <div class="tempo-label">TEMPO</div>
           <div class="tempo-value">${this.tempoBpm} BPM</div>
-          <input id="tempo-slider" type="range" min="60" max="200" .value=${this.tempoBpm.toString()} @input=${this.handleTempoInput}>
+          ${this.renderContextReset()}
+          <input id="tempo-slider" type="range" min="60" max="200" .value=${this.tempoBpm.toString()} ?disabled=${this.externalClock} @input=${this.handleTempoInput}>
+          <button @click=${this.toggleExternalClock} class=${this.externalClock ? 'active' : ''} title="Sync to external MIDI clock">EXT</button>
+          ${this.renderLearnBadge('tempo')}
         </div>
       </header>
 
@@ -352,6 +1103,14 @@ export class PromptDjMidi extends LitElement {
             .audioLevel=${this.audioLevel}>
           </influence-monitor>
 
+          ${this.renderProgramControls()}
+          <generation-config-panel
+            .config=${this.generationConfig}
+            .registry=${this.midiMappings}
+            ?showMidi=${this.showMidi}
+            @config-changed=${(e: CustomEvent<GenerationConfig>) => this.setGenerationConfig(e.detail)}>
+          </generation-config-panel>
+
           <div id="inspector">
             <div class="inspector-title">Active Styles</div>
             ${activePrompts.length === 0 ? html`<div style="color: #fff4; font-size: 1.6vmin; text-align: center; margin-top: 4vmin;">Increase weight on a slot to mix styles...</div>` : ''}
@@ -367,18 +1126,68 @@ export class PromptDjMidi extends LitElement {
                     <div class="genre-slot-id">Slot ${slotIndex}</div>
                   </div>
                   <div class="instrument-label">Lead: ${p.selectedInstrument}</div>
-                  <select class="instrument-select" @change=${(e: Event) => this.handleInstrumentChange(p.promptId, e)}>
-                    ${(p.instruments || []).map(inst => html`<option value=${inst} ?selected=${p.selectedInstrument === inst}>${inst}</option>`)}
-                  </select>
+                  <div class="instrument-row">
+                    <button @click=${() => this.stepInstrument(p.promptId, -1)} aria-label="Previous instrument">◀</button>
+                    <select class="instrument-select" @change=${(e: Event) => this.handleInstrumentChange(p.promptId, e)}>
+                      ${(p.instruments || []).map(inst => html`<option value=${inst} ?selected=${p.selectedInstrument === inst}>${inst}</option>`)}
+                    </select>
+                    <button @click=${() => this.stepInstrument(p.promptId, 1)} aria-label="Next instrument">▶</button>
+                  </div>
+                  ${this.showMidi ? html`
+                    <div class="genre-midi">
+                      ${this.renderLearnBadge(`${p.promptId}/instrument`, 'Inst')}
+                      ${this.renderLearnBadge(`${p.promptId}/instrument-prev`, 'Prev')}
+                      ${this.renderLearnBadge(`${p.promptId}/instrument-next`, 'Next')}
+                    </div>
+                  ` : ''}
                 </div>
               `;
             })}
           </div>
+
+          ${this.showMidi ? html`
+            <modulation-panel
+              .matrix=${this.modulation}
+              .prompts=${this.prompts}>
+            </modulation-panel>
+            <midi-monitor
+              .midiDispatcher=${this.midiDispatcher}
+              .inputIds=${this.midiInputIds}>
+            </midi-monitor>
+          ` : ''}
         </div>
       </div>
 
+      ${this.showMidi && this.enabledMidiInputIds.includes(VIRTUAL_INPUT_ID) ? html`
+        <virtual-controller .virtualInput=${this.virtualInput}></virtual-controller>
+      ` : ''}
+
       <div id="controls-footer">
-        <play-pause-button .playbackState=${this.playbackState} @click=${this.playPause}></play-pause-button>
+        <div class="footer-midi">
+          <play-pause-button .playbackState=${this.playbackState} @click=${this.playPause}></play-pause-button>
+          ${this.renderLearnBadge('play-pause')}
+        </div>
+        <div class="footer-midi">
+          <button id="record" class=${this.recording ? 'active' : ''} @click=${this.toggleRecording} title="Record to WAV">
+            ${this.recording ? `■ ${formatDuration(this.recordedSeconds)}` : '● REC'}
+          </button>
+          ${this.renderLearnBadge('record')}
+        </div>
+        <div class="footer-midi">
+          <button id="capture" @click=${this.captureReplay} title="Save the replay buffer to WAV">
+            ⟲ ${formatDuration(this.replaySeconds)}
+          </button>
+          <div id="replay-settings">
+            <select @change=${this.handleReplayLengthChange} title="Replay buffer length">
+              ${REPLAY_LENGTHS.map((seconds) => html`
+                <option value=${seconds} ?selected=${this.replayMaxSeconds === seconds}>Last ${seconds / 60} min</option>
+              `)}
+            </select>
+            <span title="Replay buffer memory">${(this.replayMemoryBytes / 1e6).toFixed(1)} MB</span>
+          </div>
+          ${this.renderLearnBadge('replay-capture')}
+        </div>
+        ${this.renderBufferStats()}
       </div>
     `;
   }
@@ -388,7 +1197,12 @@ export class PromptDjMidi extends LitElement {
       <prompt-controller
         promptId=${prompt.promptId}
         ?filtered=${this.filteredPrompts.has(prompt.text)}
-        cc=${prompt.cc}
+        .cc=${prompt.cc}
+        .channel=${prompt.channel}
+        .note=${prompt.note}
+        .nrpn=${prompt.nrpn}
+        noteMode=${prompt.noteMode ?? 'toggle'}
+        .response=${prompt.response ?? DEFAULT_RESPONSE}
         text=${prompt.text}
         weight=${prompt.weight}
         color=${prompt.color}
@@ -397,6 +1211,7 @@ export class PromptDjMidi extends LitElement {
         selectedInstrument=${prompt.selectedInstrument}
         .genreLibrary=${this.genreLibrary}
         .midiDispatcher=${this.midiDispatcher}
+        .midiMappings=${this.midiMappings}
         .showCC=${this.showMidi}
         audioLevel=${this.audioLevel}
         @prompt-changed=${this.handlePromptChanged}>
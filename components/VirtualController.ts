@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import { VIRTUAL_CONTROL_COUNT, type VirtualMidiInput } from '../utils/VirtualMidiInput';
+
+/** On-screen pads and faders for the virtual MIDI input. */
+@customElement('virtual-controller')
+export class VirtualController extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+      background: #000a;
+      backdrop-filter: blur(10px);
+      border: 1px solid #fff2;
+      border-radius: 1.5vmin;
+      padding: 1vmin;
+      font-size: 1vmin;
+      color: #fff8;
+    }
+    .strip {
+      display: grid;
+      grid-template-columns: repeat(16, 2.4vmin);
+      gap: 0.5vmin;
+    }
+    input[type=range] {
+      writing-mode: vertical-lr;
+      direction: rtl;
+      width: 2.4vmin;
+      height: 8vmin;
+      margin: 0;
+      accent-color: #00ffcc;
+    }
+    .pad {
+      height: 2.4vmin;
+      border-radius: 0.4vmin;
+      border: 1px solid #fff4;
+      background: #fff1;
+      cursor: pointer;
+      user-select: none;
+      touch-action: none;
+      &.on {
+        background: #00ffcc;
+        box-shadow: 0 0 6px #00ffcc;
+      }
+    }
+    .hint {
+      margin-top: 0.6vmin;
+      text-align: center;
+    }
+  `;
+
+  @property({ type: Object }) virtualInput: VirtualMidiInput | null = null;
+
+  private readonly onChange = () => this.requestUpdate();
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.virtualInput?.addEventListener('change', this.onChange);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.virtualInput?.removeEventListener('change', this.onChange);
+  }
+
+  /**
+   * Captures the pointer so the pad hears its release wherever it happens.
+   * Capture is lost on pointerup and pointercancel alike, so the note never sticks.
+   */
+  private handlePadDown(e: PointerEvent, index: number) {
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    this.virtualInput?.pressPad(index);
+  }
+
+  override render() {
+    const values = this.virtualInput?.values ?? [];
+    const indices = Array.from({ length: VIRTUAL_CONTROL_COUNT }, (_, i) => i);
+    return html`
+      <div class="strip">
+        ${indices.map((i) => html`<input type="range" min="0" max="127" .value=${String(values[i] ?? 0)}
+          aria-label="Fader ${i + 1}"
+          @input=${(e: Event) => this.virtualInput?.setFader(i, parseInt((e.target as HTMLInputElement).value))}>`)}
+      </div>
+      <div class="strip">
+        ${indices.map((i) => html`<div
+          class=${classMap({ pad: true, on: (values[i] ?? 0) > 0 })}
+          @pointerdown=${(e: PointerEvent) => this.handlePadDown(e, i)}
+          @lostpointercapture=${() => this.virtualInput?.releasePad(i)}></div>`)}
+      </div>
+      <div class="hint">1-8 / Q-I nudge · A-K, Z-, pads · Shift for 9-16</div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'virtual-controller': VirtualController;
+  }
+}
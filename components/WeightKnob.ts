@@ -2,7 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { css, html, LitElement } from 'lit';
+import { css, html, LitElement, svg } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import { styleMap } from 'lit/directives/style-map.js';
 
@@ -49,6 +49,8 @@ export class WeightKnob extends LitElement {
   @property({ type: Number }) value = 0;
   @property({ type: String }) color = '#000';
   @property({ type: Number }) audioLevel = 0;
+  /** Where a soft-takeover controller currently sits, if it differs from `value`. */
+  @property({ type: Number }) hardwareValue: number | null = null;
 
   private dragStartPos = 0;
   private dragStartValue = 0;
@@ -89,6 +91,14 @@ export class WeightKnob extends LitElement {
     this.dispatchEvent(new CustomEvent<number>('input', { detail: this.value }));
   }
 
+  private renderHardwareMarker(minRot: number, maxRot: number) {
+    if (this.hardwareValue === null) return '';
+    const rot = minRot + (this.hardwareValue / 2) * (maxRot - minRot);
+    const x = 40 + 34.5 * Math.cos(rot);
+    const y = 40 + 34.5 * Math.sin(rot);
+    return svg`<circle cx=${x} cy=${y} r="3" fill="none" stroke="orange" stroke-width="1.5" />`;
+  }
+
   private describeArc(
     centerX: number,
     centerY: number,
@@ -140,6 +150,7 @@ export class WeightKnob extends LitElement {
         <g style=${dotStyle}>
           <circle cx="14" cy="0" r="2" fill="#000" />
         </g>
+        ${this.renderHardwareMarker(minRot, maxRot)}
         <path
           d=${this.describeArc(40, 40, minRot, maxRot, 34.5)}
           fill="none"
@@ -5,12 +5,14 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { PlaybackState, Prompt } from './types';
+import type { BufferStats, ContextResetState, GenerationConfig, PlaybackState, Prompt, ReconnectAttempt, Recording } from './types';
 import { GoogleGenAI, LiveMusicFilteredPrompt } from '@google/genai';
 import { PromptDjMidi } from './components/PromptDjMidi';
 import { ToastMessage } from './components/ToastMessage';
 import { LiveMusicHelper } from './utils/LiveMusicHelper';
 import { AudioAnalyser } from './utils/AudioAnalyser';
+import { MidiClockGenerator } from './utils/MidiClockGenerator';
+import { AudioRecorder } from './utils/AudioRecorder';
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 const model = 'lyria-realtime-exp';
@@ -30,26 +32,116 @@ function main() {
   const audioAnalyser = new AudioAnalyser(liveMusicHelper.audioContext);
   liveMusicHelper.extraDestination = audioAnalyser.node;
 
+  const midiClock = new MidiClockGenerator(liveMusicHelper.audioContext, pdjMidi.midiDispatcher);
+  midiClock.tempoBpm = liveMusicHelper.tempoBpm;
+
+  const recorder = new AudioRecorder(liveMusicHelper);
+  const { replayBuffer } = liveMusicHelper;
+  let currentPrompts = initialPrompts;
+  replayBuffer.logTempo(liveMusicHelper.tempoBpm);
+  replayBuffer.logPrompts(initialPrompts);
+
   pdjMidi.addEventListener('prompts-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<Map<string, Prompt>>;
     const prompts = customEvent.detail;
+    currentPrompts = prompts;
     liveMusicHelper.setWeightedPrompts(prompts);
+    recorder.logPrompts(prompts);
+    replayBuffer.logPrompts(prompts);
   }));
 
   pdjMidi.addEventListener('tempo-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<number>;
     liveMusicHelper.tempoBpm = customEvent.detail;
+    midiClock.tempoBpm = customEvent.detail;
+    recorder.logTempo(customEvent.detail);
+    replayBuffer.logTempo(customEvent.detail);
+  }));
+
+  pdjMidi.addEventListener('config-changed', ((e: Event) => {
+    liveMusicHelper.setGenerationConfig((e as CustomEvent<GenerationConfig>).detail);
   }));
 
+  pdjMidi.addEventListener('record-toggle', () => {
+    if (!recorder.isRecording) {
+      recorder.start();
+      recorder.logTempo(liveMusicHelper.tempoBpm);
+      recorder.logPrompts(currentPrompts);
+      return;
+    }
+    saveRecording(recorder.stop(), 'Nothing was recorded; press play first.');
+  });
+
+  pdjMidi.addEventListener('replay-capture', () => {
+    saveRecording(replayBuffer.capture(), 'The replay buffer is empty; press play first.', 'replay');
+  });
+
+  pdjMidi.addEventListener('replay-length-changed', ((e: Event) => {
+    replayBuffer.maxSeconds = (e as CustomEvent<number>).detail;
+  }));
+
+  const saveRecording = (recording: Recording, emptyMessage: string, prefix = 'promptdj') => {
+    if (recording.duration === 0) {
+      toastMessage.show(emptyMessage);
+      return;
+    }
+    const name = `${prefix}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    download(recording.wav, `${name}.wav`);
+    download(new Blob([JSON.stringify(recording.events, null, 2)], { type: 'application/json' }), `${name}.json`);
+  };
+
+  recorder.addEventListener('recording-changed', () => {
+    pdjMidi.recording = recorder.isRecording;
+    pdjMidi.recordedSeconds = recorder.duration;
+  });
+
+  const showReplayBuffer = () => {
+    pdjMidi.replaySeconds = replayBuffer.duration;
+    pdjMidi.replayMaxSeconds = replayBuffer.maxSeconds ?? 0;
+    pdjMidi.replayMemoryBytes = replayBuffer.memoryBytes;
+  };
+  replayBuffer.addEventListener('recording-changed', showReplayBuffer);
+  showReplayBuffer();
+
   pdjMidi.addEventListener('play-pause', () => {
     liveMusicHelper.playPause();
   });
 
+  pdjMidi.bufferStats = liveMusicHelper.bufferStats;
+
+  liveMusicHelper.addEventListener('context-reset', ((e: Event) => {
+    pdjMidi.contextReset = (e as CustomEvent<ContextResetState>).detail;
+  }));
+
+  liveMusicHelper.addEventListener('buffer-stats', ((e: Event) => {
+    pdjMidi.bufferStats = (e as CustomEvent<BufferStats>).detail;
+  }));
+
+  pdjMidi.addEventListener('buffer-bounds-changed', ((e: Event) => {
+    const { min, max } = (e as CustomEvent<{ min: number; max: number }>).detail;
+    liveMusicHelper.setBufferBounds(min, max);
+  }));
+
+  let reconnecting = false;
+
+  liveMusicHelper.addEventListener('reconnecting', ((e: Event) => {
+    const { attempt, maxAttempts, delayMs } = (e as CustomEvent<ReconnectAttempt>).detail;
+    reconnecting = true;
+    toastMessage.show(`Connection lost. Reconnecting in ${Math.round(delayMs / 1000)}s (attempt ${attempt} of ${maxAttempts}); press stop to cancel.`);
+  }));
+
   liveMusicHelper.addEventListener('playback-state-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<PlaybackState>;
     const playbackState = customEvent.detail;
     pdjMidi.playbackState = playbackState;
+    if (reconnecting && playbackState !== 'reconnecting') {
+      reconnecting = false;
+      if (playbackState === 'playing' || playbackState === 'buffering') toastMessage.show('Reconnected.');
+      else toastMessage.hide();
+    }
     playbackState === 'playing' ? audioAnalyser.start() : audioAnalyser.stop();
+    if (playbackState === 'playing') midiClock.start();
+    if (playbackState === 'paused' || playbackState === 'stopped' || playbackState === 'error') midiClock.stop();
   }));
 
   liveMusicHelper.addEventListener('filtered-prompt', ((e: Event) => {
@@ -76,6 +168,15 @@ function main() {
 
 }
 
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 function buildInitialPrompts() {
   const startOn = [...GENRE_LIBRARY]
     .sort(() => Math.random() - 0.5)
@@ -92,6 +193,7 @@ function buildInitialPrompts() {
       text,
       weight: startOn.includes(genre) ? 1 : 0,
       cc: i,
+      channel: 'omni',
       color,
       density: 0.5,
       instruments: instruments || [],
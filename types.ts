@@ -3,11 +3,19 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import type { LiveMusicGenerationConfig } from '@google/genai';
+
 export interface Prompt {
   readonly promptId: string;
   text: string;
   weight: number;
-  cc: number;
+  /** Left unset, with `note` and `nrpn`, when another mapping took the slot's controller. */
+  cc?: number;
+  channel: MidiChannel;
+  note?: number;
+  nrpn?: number;
+  noteMode?: NoteMode;
+  response?: MidiResponse;
   color: string;
   density: number;
   instruments?: string[];
@@ -18,6 +26,237 @@ export interface ControlChange {
   channel: number;
   cc: number;
   value: number;
+  /**
+   * The 14-bit value, 0-16383, on the extra event sent for a CC 0-31 when an
+   * LSB on CC+32 follows it. Only mappings with `highResolution` use it.
+   */
+  value14?: number;
+}
+
+/** An assembled NRPN data entry; `value` is 14-bit, 0-16383. */
+export interface NrpnMessage {
+  channel: number;
+  parameter: number;
+  value: number;
+}
+
+/** A zero-based MIDI channel, or 'omni' to respond on every channel. */
+export type MidiChannel = number | 'omni';
+
+export type NoteMode = 'toggle' | 'momentary';
+
+export interface NoteMessage {
+  channel: number;
+  note: number;
+  velocity: number;
+  on: boolean;
 }
 
-export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+/** The controller message a mapping listens for. */
+export type MidiSource =
+  | { type: 'cc'; channel: MidiChannel; cc: number }
+  | { type: 'note'; channel: MidiChannel; note: number }
+  | { type: 'nrpn'; channel: MidiChannel; parameter: number };
+
+export type ResponseCurve = 'linear' | 'logarithmic' | 'exponential' | 's-curve';
+
+/**
+ * How an absolute controller takes over a value that changed elsewhere:
+ * 'jump' follows it at once, 'pickup' waits until the controller crosses the
+ * value, 'scale' moves the value proportionally until the two meet.
+ */
+export type TakeoverMode = 'jump' | 'pickup' | 'scale';
+
+/** How a CC encodes its value: an absolute position or a relative encoder step. */
+export type ControllerEncoding = 'absolute' | 'twos-complement' | 'binary-offset' | 'sign-magnitude';
+
+/** Shapes a 0-1 controller value into a sub-range of its target. */
+export interface MidiResponse {
+  /** Output at the bottom of the controller's travel, as a 0-1 fraction of the target range. */
+  min: number;
+  /** Output at the top of the controller's travel, as a 0-1 fraction of the target range. */
+  max: number;
+  invert: boolean;
+  curve: ResponseCurve;
+  takeover?: TakeoverMode;
+  encoding?: ControllerEncoding;
+  /** 0-1; how much faster turns move relative encoders further per step. */
+  acceleration?: number;
+  /**
+   * Absolute CCs 0-31 only: pair each value with the LSB on CC+32 for 14-bit
+   * resolution. Off by default, since many controllers put unrelated buttons
+   * on CCs 32-63.
+   */
+  highResolution?: boolean;
+}
+
+/** Binds a registered parameter, by id, to a controller message. */
+export interface MidiMapping {
+  target: string;
+  source: MidiSource;
+  response?: MidiResponse;
+}
+
+export type ModulationSourceType = 'pitch-bend' | 'channel-pressure' | 'poly-aftertouch';
+
+/**
+ * A continuous performance message. `value` is -1 to 1 for pitch bend
+ * (0 at the centre detent) and 0 to 1 for pressure.
+ */
+export interface ModulationMessage {
+  channel: number;
+  source: ModulationSourceType;
+  value: number;
+  /** The key, for polyphonic aftertouch. */
+  note?: number;
+}
+
+/**
+ * Routes a modulation source onto slot weight or density, offsetting the
+ * base value by `depth` times the source value.
+ */
+export interface ModulationAssignment {
+  source: ModulationSourceType;
+  channel: MidiChannel;
+  /** A promptId, or 'active' for every slot with a base weight above zero. */
+  target: string;
+  parameter: 'weight' | 'density';
+  /** -1 to 1, as a fraction of the parameter's full range. */
+  depth: number;
+}
+
+/** A Program Change, with the bank last selected on its channel. */
+export interface ProgramChange {
+  channel: number;
+  bank: number;
+  program: number;
+}
+
+/** The musical part of a slot that a program stores; mappings are left alone. */
+export type ProgramSlot = Pick<Prompt, 'text' | 'weight' | 'color' | 'density' | 'instruments' | 'selectedInstrument'>;
+
+/** A stored mixer state, recalled by Program Change number (bank * 128 + program). */
+export interface MixerProgram {
+  number: number;
+  name: string;
+  tempoBpm: number;
+  slots: Record<string, ProgramSlot>;
+}
+
+/** One decoded incoming message, as shown in the MIDI monitor. */
+export interface MidiLogEntry {
+  time: number;
+  inputId: string;
+  device: string;
+  channel?: number;
+  type: string;
+  data: string;
+  /** Labels of the mappings that acted on the message. */
+  consumedBy: string[];
+  /** Why the message was ignored before reaching any mapping. */
+  dropped?: string;
+}
+
+/** A device's reply to a SysEx Universal Identity Request. */
+export interface DeviceIdentity {
+  /** Hex bytes of the manufacturer ID, e.g. "42" or "00 20 29". */
+  manufacturerId: string;
+  manufacturer: string;
+  family: number;
+  model: number;
+  version: string;
+}
+
+/** A mapping as stored in a controller profile. */
+export interface ProfileMapping extends MidiMapping {
+  noteMode?: NoteMode;
+}
+
+/** A shareable set of MIDI mappings for one kind of controller. */
+export interface ControllerProfile {
+  version: number;
+  name: string;
+  /** Matched case-insensitively against connected device names. */
+  deviceMatch: string;
+  /** When set, matched against SysEx identity replies before the name. */
+  identity?: Pick<DeviceIdentity, 'manufacturerId' | 'family' | 'model'>;
+  mappings: ProfileMapping[];
+}
+
+export type TransportMessage = 'start' | 'stop' | 'continue';
+
+/** A decoded chunk as handed to the output, with its expected AudioContext start time. */
+export interface ScheduledAudio {
+  channels: Float32Array[];
+  sampleRate: number;
+  startTime: number;
+}
+
+/** The output fading to silence from `time` over `fade` seconds, e.g. on pause. */
+export interface OutputCut {
+  time: number;
+  fade: number;
+}
+
+/** A prompt or tempo change, timed in seconds from the start of a recording. */
+export interface RecordingEvent {
+  time: number;
+  type: 'prompts' | 'tempo';
+  prompts?: Pick<Prompt, 'text' | 'weight' | 'density' | 'selectedInstrument'>[];
+  tempoBpm?: number;
+}
+
+/** A finished recording and its timed prompt/tempo changes. */
+export interface Recording {
+  wav: Blob;
+  events: RecordingEvent[];
+  duration: number;
+}
+
+/**
+ * The generation settings edited alongside the tempo, which travels as `bpm`
+ * on its own. Unset fields are left for the model to choose.
+ */
+export type GenerationConfig = Pick<
+  LiveMusicGenerationConfig,
+  'scale' | 'density' | 'brightness' | 'guidance' | 'temperature' | 'topK' | 'seed' | 'muteBass' | 'muteDrums' | 'onlyBassAndDrums'
+>;
+
+/** Playback buffer health, in seconds. */
+export interface BufferStats {
+  /** Audio scheduled ahead of the playhead. */
+  bufferedAhead: number;
+  /** How far ahead the buffer currently aims to be. */
+  target: number;
+  underruns: number;
+  /** Smoothed deviation of chunk arrival times. */
+  jitter: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Progress of a tempo or scale change, which needs the model's context reset:
+ * 'pending' while it settles, 'applied' once the new context is heard.
+ */
+export type ContextResetState = 'idle' | 'pending' | 'applied';
+
+/** A scheduled attempt to restore a dropped session. */
+export interface ReconnectAttempt {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+}
+
+/**
+ * 'connecting' waits for a session, 'buffering' for enough audio to start
+ * (or restart after an underrun), 'error' for the user after a failure.
+ */
+export type PlaybackState =
+  | 'stopped'
+  | 'connecting'
+  | 'buffering'
+  | 'playing'
+  | 'paused'
+  | 'reconnecting'
+  | 'error';
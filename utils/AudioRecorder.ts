@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { OutputCut, Prompt, Recording, RecordingEvent, ScheduledAudio } from '../types';
+import { encodeWav, floatToInt16 } from './audio';
+import type { LiveMusicHelper } from './LiveMusicHelper';
+
+const NUM_CHANNELS = 2;
+const BYTES_PER_FRAME = NUM_CHANNELS * Int16Array.BYTES_PER_ELEMENT;
+
+/**
+ * Records the decoded audio exactly as LiveMusicHelper schedules it, rather
+ * than tapping the output in real time, so pauses leave no silence and the
+ * file is sample-accurate. Audio cut short by a pause is trimmed and faded
+ * out the way the output gain ramps it.
+ *
+ * With `maxSeconds` set it keeps only the most recent audio, as a replay
+ * buffer that can be captured at any time.
+ */
+export class AudioRecorder extends EventTarget {
+  private readonly liveMusicHelper: LiveMusicHelper;
+  private chunks: Int16Array[][] = [];
+  /** Frames currently held. */
+  private frames = 0;
+  /** Frames dropped off the front to stay within `maxSeconds`. */
+  private evictedFrames = 0;
+  /** AudioContext time at which the last recorded chunk ends. */
+  private scheduledEnd = 0;
+  /** Timed from the first frame ever recorded, including evicted ones. */
+  private events: RecordingEvent[] = [];
+  private recording = false;
+  private _maxSeconds: number | null;
+
+  constructor(liveMusicHelper: LiveMusicHelper, maxSeconds: number | null = null) {
+    super();
+    this.liveMusicHelper = liveMusicHelper;
+    this._maxSeconds = maxSeconds;
+    liveMusicHelper.addEventListener('audio-scheduled', (e: Event) => {
+      this.addChunk((e as CustomEvent<ScheduledAudio>).detail);
+    });
+    liveMusicHelper.addEventListener('output-cut', (e: Event) => {
+      this.cut((e as CustomEvent<OutputCut>).detail);
+    });
+  }
+
+  get isRecording() {
+    return this.recording;
+  }
+
+  get maxSeconds() {
+    return this._maxSeconds;
+  }
+
+  set maxSeconds(seconds: number | null) {
+    this._maxSeconds = seconds;
+    this.evict();
+    this.dispatchEvent(new CustomEvent('recording-changed'));
+  }
+
+  private get sampleRate() {
+    return this.liveMusicHelper.audioContext.sampleRate;
+  }
+
+  /** Seconds of audio held. */
+  get duration() {
+    return this.frames / this.sampleRate;
+  }
+
+  /** Bytes of audio held. */
+  get memoryBytes() {
+    return this.frames * BYTES_PER_FRAME;
+  }
+
+  /** Where the audio being heard right now sits on the recording's timeline, in seconds. */
+  private get position() {
+    const ahead = Math.max(0, this.scheduledEnd - this.liveMusicHelper.audioContext.currentTime);
+    return Math.max(0, (this.evictedFrames + this.frames) / this.sampleRate - ahead);
+  }
+
+  /** Starts afresh; log the current prompts and tempo right after. */
+  start() {
+    this.chunks = [];
+    this.frames = 0;
+    this.evictedFrames = 0;
+    this.scheduledEnd = 0;
+    this.events = [];
+    this.recording = true;
+    this.dispatchEvent(new CustomEvent('recording-changed'));
+  }
+
+  stop(): Recording {
+    const recording = this.capture();
+    this.recording = false;
+    this.chunks = [];
+    this.frames = 0;
+    this.events = [];
+    this.dispatchEvent(new CustomEvent('recording-changed'));
+    return recording;
+  }
+
+  /** Encodes what is held without stopping. */
+  capture(): Recording {
+    return {
+      wav: encodeWav(this.chunks, this.sampleRate, NUM_CHANNELS),
+      events: this.eventsInWindow(),
+      duration: this.duration,
+    };
+  }
+
+  logPrompts(prompts: Map<string, Prompt>) {
+    if (!this.recording) return;
+    this.events.push({
+      time: this.position,
+      type: 'prompts',
+      prompts: [...prompts.values()]
+        .filter((p) => p.weight > 0)
+        .map(({ text, weight, density, selectedInstrument }) => ({ text, weight, density, selectedInstrument })),
+    });
+  }
+
+  logTempo(tempoBpm: number) {
+    if (!this.recording) return;
+    this.events.push({ time: this.position, type: 'tempo', tempoBpm });
+  }
+
+  /**
+   * The events timed from the first frame held. The latest prompts and tempo
+   * from before that are kept at 0, so a capture always starts with a state.
+   */
+  private eventsInWindow(): RecordingEvent[] {
+    const start = this.evictedFrames / this.sampleRate;
+    const before = new Map<RecordingEvent['type'], RecordingEvent>();
+    const within: RecordingEvent[] = [];
+    for (const event of this.events) {
+      if (event.time < start) before.set(event.type, { ...event, time: 0 });
+      else within.push({ ...event, time: event.time - start });
+    }
+    return [...before.values(), ...within];
+  }
+
+  private addChunk({ channels, sampleRate, startTime }: ScheduledAudio) {
+    if (!this.recording) return;
+    const length = channels[0].length;
+    this.chunks.push(channels.map((samples) => {
+      const pcm = new Int16Array(length);
+      for (let i = 0; i < length; i++) pcm[i] = floatToInt16(samples[i]);
+      return pcm;
+    }));
+    this.frames += length;
+    this.scheduledEnd = startTime + length / sampleRate;
+    this.evict();
+    this.dispatchEvent(new CustomEvent('recording-changed'));
+  }
+
+  /** Drops whole chunks off the front, and events older than any a capture could need. */
+  private evict() {
+    if (this._maxSeconds === null) return;
+    const maxFrames = this._maxSeconds * this.sampleRate;
+    while (this.chunks.length > 1 && this.frames - this.chunks[0][0].length >= maxFrames) {
+      const length = this.chunks.shift()![0].length;
+      this.frames -= length;
+      this.evictedFrames += length;
+    }
+    const start = this.evictedFrames / this.sampleRate;
+    const latest = new Map<RecordingEvent['type'], RecordingEvent>();
+    for (const event of this.events) if (event.time < start) latest.set(event.type, event);
+    this.events = this.events.filter((e) => e.time >= start || latest.get(e.type) === e);
+  }
+
+  /** Drops the audio that will never be heard after a cut and fades the rest out. */
+  private cut({ time, fade }: OutputCut) {
+    if (!this.recording || this.scheduledEnd <= time) return;
+    const end = Math.min(this.scheduledEnd, time + fade);
+    this.trimFrames(Math.round((this.scheduledEnd - end) * this.sampleRate));
+    this.fadeOut(Math.round((end - time) * this.sampleRate), Math.round(fade * this.sampleRate));
+    this.scheduledEnd = end;
+  }
+
+  private trimFrames(count: number) {
+    while (count > 0 && this.chunks.length > 0) {
+      const last = this.chunks[this.chunks.length - 1];
+      const length = last[0].length;
+      if (length <= count) {
+        this.chunks.pop();
+        this.frames -= length;
+        count -= length;
+      } else {
+        this.chunks[this.chunks.length - 1] = last.map((samples) => samples.subarray(0, length - count));
+        this.frames -= count;
+        count = 0;
+      }
+    }
+  }
+
+  /** Ramps the last `count` frames linearly, as if they were the start of a `fadeLength`-frame ramp to 0. */
+  private fadeOut(count: number, fadeLength: number) {
+    let frame = count;
+    for (let i = this.chunks.length - 1; i >= 0 && frame > 0; i--) {
+      const chunk = this.chunks[i];
+      for (let j = chunk[0].length - 1; j >= 0 && frame > 0; j--, frame--) {
+        const gain = 1 - (frame - 1) / fadeLength;
+        for (const samples of chunk) samples[j] = Math.round(samples[j] * gain);
+      }
+    }
+  }
+}
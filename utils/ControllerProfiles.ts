@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ControllerProfile, DeviceIdentity, MidiChannel, MidiResponse, MidiSource, ProfileMapping } from '../types';
+import { CONTROLLER_ENCODINGS, RESPONSE_CURVES, TAKEOVER_MODES } from './midiResponse';
+
+export const PROFILE_VERSION = 1;
+
+const STORAGE_KEY = 'promptdj-midi-profiles';
+
+/** Builds the weight mappings for slots 0-15 from a list of CCs. */
+function slotCcs(channel: MidiChannel, ccs: number[]): ProfileMapping[] {
+  return ccs.map((cc, i) => ({
+    target: `prompt-${i}/weight`,
+    source: { type: 'cc', channel, cc },
+  }));
+}
+
+export const BUILT_IN_PROFILES: ControllerProfile[] = [
+  {
+    version: PROFILE_VERSION,
+    name: 'Korg nanoKONTROL2',
+    deviceMatch: 'nanoKONTROL2',
+    mappings: [
+      ...slotCcs(0, [0, 1, 2, 3, 4, 5, 6, 7, 16, 17, 18, 19, 20, 21, 22, 23]),
+      { target: 'play-pause', source: { type: 'cc', channel: 0, cc: 41 } },
+    ],
+  },
+  {
+    version: PROFILE_VERSION,
+    name: 'Novation Launch Control XL',
+    deviceMatch: 'Launch Control XL',
+    mappings: slotCcs(8, [13, 14, 15, 16, 17, 18, 19, 20, 29, 30, 31, 32, 33, 34, 35, 36]),
+  },
+  {
+    version: PROFILE_VERSION,
+    name: 'Arturia BeatStep',
+    deviceMatch: 'BeatStep',
+    mappings: slotCcs(0, [10, 74, 71, 76, 77, 93, 73, 75, 114, 18, 19, 16, 17, 91, 79, 72]),
+  },
+];
+
+function isChannel(value: unknown): value is MidiChannel {
+  return value === 'omni' || (typeof value === 'number' && value >= 0 && value < 16);
+}
+
+function isSource(value: unknown): value is MidiSource {
+  if (!value || typeof value !== 'object') return false;
+  const source = value as Record<string, unknown>;
+  if (!isChannel(source.channel)) return false;
+  switch (source.type) {
+    case 'cc':
+      return typeof source.cc === 'number';
+    case 'note':
+      return typeof source.note === 'number';
+    case 'nrpn':
+      return typeof source.parameter === 'number';
+    default:
+      return false;
+  }
+}
+
+const isFraction = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+function isResponse(value: unknown): value is MidiResponse {
+  if (!value || typeof value !== 'object') return false;
+  const response = value as Record<string, unknown>;
+  return isFraction(response.min)
+    && isFraction(response.max)
+    && typeof response.invert === 'boolean'
+    && RESPONSE_CURVES.includes(response.curve as MidiResponse['curve'])
+    && (response.takeover === undefined || TAKEOVER_MODES.includes(response.takeover as NonNullable<MidiResponse['takeover']>))
+    && (response.encoding === undefined || CONTROLLER_ENCODINGS.includes(response.encoding as NonNullable<MidiResponse['encoding']>))
+    && (response.acceleration === undefined || isFraction(response.acceleration))
+    && (response.highResolution === undefined || typeof response.highResolution === 'boolean');
+}
+
+function isMapping(value: unknown): value is ProfileMapping {
+  if (!value || typeof value !== 'object') return false;
+  const mapping = value as Record<string, unknown>;
+  return typeof mapping.target === 'string'
+    && isSource(mapping.source)
+    && (mapping.response === undefined || isResponse(mapping.response))
+    && (mapping.noteMode === undefined || mapping.noteMode === 'toggle' || mapping.noteMode === 'momentary');
+}
+
+/** Parses and validates a profile file, throwing a readable error if it is not one. */
+export function parseProfile(json: string): ControllerProfile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Controller profile is not valid JSON.');
+  }
+  return validateProfile(data);
+}
+
+/** Checks decoded profile data, dropping any mapping that is malformed. */
+function validateProfile(value: unknown): ControllerProfile {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Controller profile is not a JSON object.');
+  }
+  const data = value as Record<string, unknown>;
+  if (typeof data.version !== 'number' || data.version > PROFILE_VERSION) {
+    throw new Error(`Unsupported controller profile version: ${data.version}.`);
+  }
+  if (typeof data.name !== 'string' || !Array.isArray(data.mappings)) {
+    throw new Error('Controller profile is missing a name or mappings.');
+  }
+  const mappings = data.mappings.filter(isMapping);
+  const identity = data.identity as ControllerProfile['identity'];
+  return {
+    version: PROFILE_VERSION,
+    name: data.name,
+    deviceMatch: typeof data.deviceMatch === 'string' ? data.deviceMatch : '',
+    identity: identity && typeof identity.manufacturerId === 'string' ? identity : undefined,
+    mappings,
+  };
+}
+
+export function serializeProfile(profile: ControllerProfile): string {
+  return JSON.stringify(profile, null, 2);
+}
+
+/** Reads the saved profiles, skipping any that no longer validate. */
+export function loadStoredProfiles(): ControllerProfile[] {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch (e) {
+    console.warn('Ignoring unreadable stored controller profiles.', e);
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap((entry) => {
+    try {
+      return [validateProfile(entry)];
+    } catch (e) {
+      console.warn('Ignoring an invalid stored controller profile.', e);
+      return [];
+    }
+  });
+}
+
+export function saveStoredProfiles(profiles: ControllerProfile[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * Finds the profile for a device: an exact SysEx identity match first, then
+ * the first profile whose device match appears in the device name.
+ */
+export function findProfileForDevice(
+  deviceName: string,
+  profiles: ControllerProfile[],
+  identity?: DeviceIdentity,
+): ControllerProfile | undefined {
+  if (identity) {
+    const match = profiles.find((p) => p.identity
+      && p.identity.manufacturerId === identity.manufacturerId
+      && p.identity.family === identity.family
+      && p.identity.model === identity.model);
+    if (match) return match;
+  }
+  const name = deviceName.toLowerCase();
+  return profiles.find((p) => p.deviceMatch && name.includes(p.deviceMatch.toLowerCase()));
+}
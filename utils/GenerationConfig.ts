@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Scale } from '@google/genai';
+import type { GenerationConfig } from '../types';
+
+export type ContinuousConfigKey = 'density' | 'brightness' | 'guidance' | 'temperature' | 'topK';
+export type StemConfigKey = 'muteBass' | 'muteDrums' | 'onlyBassAndDrums';
+
+/** A numeric setting, with the range the API accepts. */
+export interface ContinuousConfigParameter {
+  key: ContinuousConfigKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  /** Shown when the setting is unset and the model uses its own default. */
+  fallback: number;
+  /** Whether the setting may be left unset for the model to choose. */
+  auto: boolean;
+}
+
+export const CONTINUOUS_CONFIG_PARAMETERS: ContinuousConfigParameter[] = [
+  { key: 'density', label: 'Density', min: 0, max: 1, step: 0.01, fallback: 0.5, auto: true },
+  { key: 'brightness', label: 'Brightness', min: 0, max: 1, step: 0.01, fallback: 0.5, auto: true },
+  { key: 'guidance', label: 'Guidance', min: 0, max: 6, step: 0.1, fallback: 4, auto: false },
+  { key: 'temperature', label: 'Temperature', min: 0, max: 3, step: 0.05, fallback: 1.1, auto: false },
+  { key: 'topK', label: 'Top K', min: 1, max: 1000, step: 1, fallback: 40, auto: false },
+];
+
+export const STEM_CONFIG_PARAMETERS: { key: StemConfigKey; label: string }[] = [
+  { key: 'muteBass', label: 'Mute bass' },
+  { key: 'muteDrums', label: 'Mute drums' },
+  { key: 'onlyBassAndDrums', label: 'Only bass & drums' },
+];
+
+/** Each scale under its major and relative minor key; SCALE_UNSPECIFIED lets the model choose. */
+export const SCALES: { value: Scale; label: string }[] = [
+  { value: Scale.SCALE_UNSPECIFIED, label: 'Auto' },
+  { value: Scale.C_MAJOR_A_MINOR, label: 'C / Am' },
+  { value: Scale.D_FLAT_MAJOR_B_FLAT_MINOR, label: 'D♭ / B♭m' },
+  { value: Scale.D_MAJOR_B_MINOR, label: 'D / Bm' },
+  { value: Scale.E_FLAT_MAJOR_C_MINOR, label: 'E♭ / Cm' },
+  { value: Scale.E_MAJOR_D_FLAT_MINOR, label: 'E / C♯m' },
+  { value: Scale.F_MAJOR_D_MINOR, label: 'F / Dm' },
+  { value: Scale.G_FLAT_MAJOR_E_FLAT_MINOR, label: 'G♭ / E♭m' },
+  { value: Scale.G_MAJOR_E_MINOR, label: 'G / Em' },
+  { value: Scale.A_FLAT_MAJOR_F_MINOR, label: 'A♭ / Fm' },
+  { value: Scale.A_MAJOR_G_FLAT_MINOR, label: 'A / F♯m' },
+  { value: Scale.B_FLAT_MAJOR_G_MINOR, label: 'B♭ / Gm' },
+  { value: Scale.B_MAJOR_A_FLAT_MINOR, label: 'B / G♯m' },
+];
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  guidance: 4,
+  temperature: 1.1,
+  topK: 40,
+  muteBass: false,
+  muteDrums: false,
+  onlyBassAndDrums: false,
+};
+
+/** The seed field's limit; any 32-bit value is accepted. */
+export const MAX_SEED = 2 ** 31 - 1;
+
+export function randomSeed() {
+  return Math.floor(Math.random() * MAX_SEED);
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { BufferStats } from '../types';
+
+export const DEFAULT_MIN_BUFFER_SECONDS = 1;
+export const DEFAULT_MAX_BUFFER_SECONDS = 6;
+const INITIAL_BUFFER_SECONDS = 2;
+
+/** How much an underrun grows the target. */
+const GROW_SECONDS = 0.5;
+/** How much a stable stretch shrinks it. */
+const SHRINK_SECONDS = 0.25;
+/** How long delivery must go without an underrun before the target shrinks. */
+const STABLE_SECONDS = 20;
+/** The target never shrinks below this many times the measured jitter. */
+const JITTER_HEADROOM = 4;
+
+/**
+ * Decides how far ahead of the playhead audio should be scheduled. The
+ * target grows after every underrun and shrinks again after sustained
+ * stable delivery, staying within the configured bounds.
+ *
+ * Jitter is the smoothed difference between the time between chunk
+ * arrivals and the duration of audio they carry, as in RFC 3550.
+ */
+export class JitterBuffer {
+  private min = DEFAULT_MIN_BUFFER_SECONDS;
+  private max = DEFAULT_MAX_BUFFER_SECONDS;
+  private _target = INITIAL_BUFFER_SECONDS;
+  private _jitter = 0;
+  private _underruns = 0;
+  private lastArrival: number | null = null;
+  private lastDuration = 0;
+  private stableSince = 0;
+
+  /** Seconds of audio to have scheduled ahead of the playhead. */
+  get target() {
+    return this._target;
+  }
+
+  get bounds() {
+    return { min: this.min, max: this.max };
+  }
+
+  setBounds(min: number, max: number) {
+    this.min = Math.max(0, Math.min(min, max));
+    this.max = Math.max(min, max);
+    this._target = Math.min(Math.max(this._target, this.min), this.max);
+  }
+
+  /** Call with the AudioContext time each chunk arrives and its duration. */
+  recordArrival(now: number, duration: number) {
+    if (this.lastArrival !== null) {
+      const deviation = Math.abs(now - this.lastArrival - this.lastDuration);
+      this._jitter += (deviation - this._jitter) / 16;
+    } else {
+      this.stableSince = now;
+    }
+    this.lastArrival = now;
+    this.lastDuration = duration;
+
+    const floor = Math.max(this.min, this._jitter * JITTER_HEADROOM);
+    if (now - this.stableSince >= STABLE_SECONDS && this._target > floor) {
+      this._target = Math.max(floor, this._target - SHRINK_SECONDS);
+      this.stableSince = now;
+    }
+  }
+
+  recordUnderrun(now: number) {
+    this._underruns++;
+    this._target = Math.min(this.max, this._target + GROW_SECONDS);
+    this.stableSince = now;
+  }
+
+  /** Forgets arrival timing, e.g. after a pause, without resetting the counts. */
+  resetTiming() {
+    this.lastArrival = null;
+  }
+
+  stats(bufferedAhead: number): BufferStats {
+    return {
+      bufferedAhead,
+      target: this._target,
+      underruns: this._underruns,
+      jitter: this._jitter,
+      ...this.bounds,
+    };
+  }
+}
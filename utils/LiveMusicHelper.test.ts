@@ -0,0 +1,341 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AudioChunk, GoogleGenAI, LiveMusicCallbacks, LiveMusicServerMessage } from '@google/genai';
+
+import type { OutputCut, PlaybackState, Prompt, ReconnectAttempt, ScheduledAudio } from '../types';
+import { LiveMusicHelper } from './LiveMusicHelper';
+import type { PlaybackCommand, PlaybackReport } from './playbackWorklet';
+
+const decode = vi.hoisted(() => vi.fn());
+
+vi.mock('./PcmDecoder', () => ({
+  PcmDecoder: class {
+    decode = decode;
+  },
+}));
+vi.mock('./playbackWorklet.ts?worker&url', () => ({ default: 'playbackWorklet.js' }));
+
+class FakeAudioParam {
+  value = 1;
+  setValueAtTime = vi.fn();
+  linearRampToValueAtTime = vi.fn();
+  cancelScheduledValues = vi.fn();
+}
+
+class FakeAudioContext {
+  sampleRate = 48000;
+  currentTime = 0;
+  destination = {};
+  audioWorklet = { addModule: vi.fn(async () => {}) };
+  resume = vi.fn(async () => {});
+  createGain() {
+    return { gain: new FakeAudioParam(), connect: vi.fn(), disconnect: vi.fn() };
+  }
+}
+
+const worklets: FakeAudioWorkletNode[] = [];
+
+class FakeAudioWorkletNode {
+  port = { postMessage: vi.fn(), onmessage: null as ((e: { data: PlaybackReport }) => void) | null };
+  connect = vi.fn();
+  disconnect = vi.fn();
+  constructor() {
+    worklets.push(this);
+  }
+
+  /** Reports as the processor would. */
+  report(report: PlaybackReport) {
+    this.port.onmessage?.({ data: report });
+  }
+
+  get disposed() {
+    return this.port.postMessage.mock.calls.some(([command]) => (command as PlaybackCommand).type === 'dispose');
+  }
+}
+
+/** Stands in for LiveMusicSession, recording what the helper asks of it. */
+class FakeSession {
+  play = vi.fn();
+  pause = vi.fn();
+  stop = vi.fn();
+  resetContext = vi.fn();
+  setWeightedPrompts = vi.fn(async () => {});
+  setMusicGenerationConfig = vi.fn(async () => {});
+}
+
+/** A connect() whose calls are answered one at a time by the test. */
+class FakeConnector {
+  readonly calls: { callbacks: LiveMusicCallbacks; resolve: (session: FakeSession) => void; reject: (e: Error) => void }[] = [];
+
+  connect = vi.fn(({ callbacks }: { callbacks: LiveMusicCallbacks }) => new Promise<FakeSession>((resolve, reject) => {
+    this.calls.push({ callbacks, resolve, reject });
+  }));
+
+  /** Opens the connection made by the latest call. */
+  open() {
+    const session = new FakeSession();
+    this.calls.at(-1)!.resolve(session);
+    return session;
+  }
+
+  /** Refuses the connection made by the latest call. */
+  refuse() {
+    this.calls.at(-1)!.reject(new Error('refused'));
+  }
+
+  /** Closes the connection made by the latest call, as the server would. */
+  close() {
+    this.calls.at(-1)!.callbacks.onclose?.({} as CloseEvent);
+  }
+}
+
+const PROMPT: Prompt = {
+  promptId: 'prompt-0',
+  text: 'Bossa Nova',
+  weight: 1,
+  density: 0.5,
+  cc: 0,
+  channel: 0,
+  color: '#9900ff',
+};
+
+/** Lets pending promises, and timers due within `ms`, run. */
+const flush = (ms = 0) => vi.advanceTimersByTimeAsync(ms);
+
+describe('LiveMusicHelper', () => {
+  let connector: FakeConnector;
+  let helper: LiveMusicHelper;
+  let states: PlaybackState[];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+    worklets.length = 0;
+    decode.mockReset();
+    decode.mockImplementation(async () => [new Float32Array(480), new Float32Array(480)]);
+    connector = new FakeConnector();
+    const ai = { live: { music: { connect: connector.connect } } } as unknown as GoogleGenAI;
+    helper = new LiveMusicHelper(ai, 'test-model');
+    helper.setWeightedPrompts(new Map([[PROMPT.promptId, PROMPT]]));
+    // Lets the prompt throttle lapse, so play() sends them again.
+    await flush(200);
+    states = [];
+    helper.addEventListener('playback-state-changed', (e) => states.push((e as CustomEvent<PlaybackState>).detail));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  /** Plays through to buffering on a freshly opened session. */
+  async function startPlaying() {
+    const playing = helper.play();
+    await flush();
+    const session = connector.open();
+    await playing;
+    expect(helper.playbackState).toBe('buffering');
+    return session;
+  }
+
+  it('connects, sends the prompts and config, then buffers', async () => {
+    const session = await startPlaying();
+
+    expect(states).toEqual(['connecting', 'buffering']);
+    expect(session.setWeightedPrompts).toHaveBeenCalled();
+    expect(session.setMusicGenerationConfig).toHaveBeenCalled();
+    expect(session.play).toHaveBeenCalledOnce();
+    expect(worklets).toHaveLength(1);
+  });
+
+  it('schedules the chunks of a message in order, whichever decodes first', async () => {
+    await startPlaying();
+    // Each chunk decodes to its own length, and the first one takes longest.
+    decode.mockImplementation((chunk: AudioChunk) => {
+      const frames = Number(chunk.data);
+      return new Promise((resolve) => setTimeout(() => resolve([new Float32Array(frames), new Float32Array(frames)]), 3000 / frames));
+    });
+    const scheduled: ScheduledAudio[] = [];
+    helper.addEventListener('audio-scheduled', (e) => scheduled.push((e as CustomEvent<ScheduledAudio>).detail));
+
+    const message = connector.calls[0].callbacks.onmessage({
+      serverContent: { audioChunks: [{ data: '100' }, { data: '200' }, { data: '300' }] },
+    } as LiveMusicServerMessage);
+    await flush(100);
+    await message;
+
+    const pushed = worklets[0].port.postMessage.mock.calls
+      .map(([command]) => command as PlaybackCommand)
+      .filter((command) => command.type === 'push');
+    expect(pushed.map((command) => command.type === 'push' && command.channels[0].length)).toEqual([100, 200, 300]);
+    expect(scheduled.map((audio) => audio.channels[0].length)).toEqual([100, 200, 300]);
+    const startTimes = scheduled.map((audio) => audio.startTime);
+    expect(startTimes[1] - startTimes[0]).toBeCloseTo(100 / 48000);
+    expect(startTimes[2] - startTimes[1]).toBeCloseTo(200 / 48000);
+  });
+
+  it('stays paused when paused while connecting', async () => {
+    const playing = helper.play();
+    await flush();
+    expect(helper.playbackState).toBe('connecting');
+
+    helper.pause();
+    const session = connector.open();
+    await playing;
+
+    expect(helper.playbackState).toBe('paused');
+    expect(session.play).not.toHaveBeenCalled();
+    expect(worklets).toHaveLength(0);
+  });
+
+  it('stops the session and fades out the output', async () => {
+    const session = await startPlaying();
+    const [worklet] = worklets;
+
+    helper.stop();
+
+    expect(helper.playbackState).toBe('stopped');
+    expect(session.stop).toHaveBeenCalledOnce();
+    await flush(1000);
+    expect(worklet.disconnect).toHaveBeenCalled();
+    expect(worklet.port.postMessage).toHaveBeenCalledWith({ type: 'dispose' });
+  });
+
+  it('ignores the old connection closing after a stop', async () => {
+    await startPlaying();
+    helper.stop();
+
+    connector.close();
+    await flush(60000);
+
+    expect(helper.playbackState).toBe('stopped');
+    expect(connector.connect).toHaveBeenCalledOnce();
+  });
+
+  it('closes a session that opens after a stop during connecting', async () => {
+    const playing = helper.play();
+    await flush();
+    helper.stop();
+    const stale = connector.open();
+    await playing;
+
+    expect(helper.playbackState).toBe('stopped');
+    expect(stale.stop).toHaveBeenCalledOnce();
+    expect(stale.play).not.toHaveBeenCalled();
+
+    const session = await startPlaying();
+    expect(connector.connect).toHaveBeenCalledTimes(2);
+    expect(session.play).toHaveBeenCalledOnce();
+  });
+
+  it('ignores messages from a connection after a stop', async () => {
+    await startPlaying();
+    const { callbacks } = connector.calls[0];
+    helper.stop();
+
+    await callbacks.onmessage({ serverContent: { audioChunks: [{ data: 'AAAA' }] } } as LiveMusicServerMessage);
+
+    expect(decode).not.toHaveBeenCalled();
+  });
+
+  it('closes a session that opens after a stop during reconnecting', async () => {
+    await startPlaying();
+    connector.close();
+    await flush(1000);
+    expect(connector.connect).toHaveBeenCalledTimes(2);
+
+    helper.stop();
+    const stale = connector.open();
+    await flush();
+
+    expect(helper.playbackState).toBe('stopped');
+    expect(stale.stop).toHaveBeenCalledOnce();
+    expect(stale.play).not.toHaveBeenCalled();
+  });
+
+  it('reconnects with exponential backoff after the connection drops', async () => {
+    await startPlaying();
+    const attempts: ReconnectAttempt[] = [];
+    helper.addEventListener('reconnecting', (e) => attempts.push((e as CustomEvent<ReconnectAttempt>).detail));
+
+    connector.close();
+    expect(helper.playbackState).toBe('reconnecting');
+    expect(attempts.at(-1)).toMatchObject({ attempt: 1, delayMs: 1000 });
+
+    await flush(999);
+    expect(connector.connect).toHaveBeenCalledOnce();
+    await flush(1);
+    expect(connector.connect).toHaveBeenCalledTimes(2);
+
+    connector.refuse();
+    await flush();
+    expect(attempts.at(-1)).toMatchObject({ attempt: 2, delayMs: 2000 });
+
+    await flush(2000);
+    expect(connector.connect).toHaveBeenCalledTimes(3);
+    const session = connector.open();
+    await flush();
+
+    expect(session.play).toHaveBeenCalledOnce();
+    expect(helper.playbackState).toBe('buffering');
+  });
+
+  it('gives up after the last reconnect attempt', async () => {
+    await startPlaying();
+    const errors: string[] = [];
+    helper.addEventListener('error', (e) => errors.push((e as CustomEvent<string>).detail));
+
+    connector.close();
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await flush(16000);
+      connector.refuse();
+      await flush();
+    }
+
+    expect(helper.playbackState).toBe('error');
+    expect(connector.connect).toHaveBeenCalledTimes(6);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('cancels a pending reconnect when paused', async () => {
+    await startPlaying();
+    connector.close();
+
+    helper.pause();
+    await flush(60000);
+
+    expect(helper.playbackState).toBe('paused');
+    expect(connector.connect).toHaveBeenCalledOnce();
+  });
+
+  it('keeps the heard output through a second reset made while the first is buffering', async () => {
+    await startPlaying();
+    const [heard] = worklets;
+    heard.report({ type: 'started' });
+    const cuts: OutputCut[] = [];
+    helper.addEventListener('output-cut', (e) => cuts.push((e as CustomEvent<OutputCut>).detail));
+
+    helper.tempoBpm = 130;
+    await flush(1000);
+    expect(worklets).toHaveLength(2);
+    helper.tempoBpm = 140;
+    await flush(1000);
+    expect(worklets).toHaveLength(3);
+    const [, buffering, latest] = worklets;
+
+    await flush(1000);
+    expect(buffering.disposed).toBe(true);
+    expect(heard.disposed).toBe(false);
+    expect(cuts).toHaveLength(0);
+
+    latest.report({ type: 'started' });
+    expect(cuts).toHaveLength(1);
+    await flush(2000);
+    expect(heard.disposed).toBe(true);
+    expect(latest.disposed).toBe(false);
+  });
+});
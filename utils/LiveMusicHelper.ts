@@ -3,13 +3,54 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { PlaybackState, Prompt } from '../types';
+/// <reference types="vite/client" />
+import type { BufferStats, ContextResetState, GenerationConfig, OutputCut, PlaybackState, Prompt, ReconnectAttempt, ScheduledAudio } from '../types';
 // Correct: Import GoogleGenAI as a value to avoid prohibited 'import type' usage
 import { GoogleGenAI } from '@google/genai';
-import type { AudioChunk, LiveMusicFilteredPrompt, LiveMusicServerMessage, LiveMusicSession } from '@google/genai';
-import { decode, decodeAudioData } from './audio';
+import type { AudioChunk, LiveMusicFilteredPrompt, LiveMusicGenerationConfig, LiveMusicServerMessage, LiveMusicSession } from '@google/genai';
+import { AudioRecorder } from './AudioRecorder';
+import { DEFAULT_GENERATION_CONFIG } from './GenerationConfig';
+import { JitterBuffer } from './JitterBuffer';
+import { PcmDecoder } from './PcmDecoder';
+import { PlaybackStateMachine } from './PlaybackStateMachine';
+import type { PlaybackCommand, PlaybackReport } from './playbackWorklet';
+import playbackWorkletUrl from './playbackWorklet.ts?worker&url';
 import { throttle } from './throttle';
 
+/** How much of the most recent output the replay buffer keeps by default. */
+const REPLAY_SECONDS = 5 * 60;
+
+/** Reconnection backoff: the first retry waits RECONNECT_BASE_MS, doubling up to RECONNECT_MAX_MS. */
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 16000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+const OUTPUT_FADE_SECONDS = 0.1;
+
+const CONFIG_UPDATE_MS = 250;
+
+/** How long tempo and scale must settle before the context is reset, so a slider drag resets once. */
+const CONTEXT_RESET_DEBOUNCE_MS = 1000;
+const CONTEXT_RESET_CROSSFADE_SECONDS = 1;
+
+/** Registered by playbackWorklet.ts, which must not be imported here: it only runs in the worklet scope. */
+const PLAYBACK_PROCESSOR = 'playback-processor';
+
+/** A playback worklet and the gain that fades it, replaced together on every pause or stop. */
+interface Output {
+  worklet: AudioWorkletNode;
+  gain: GainNode;
+  /** Whether the worklet is playing rather than waiting for its threshold. */
+  running: boolean;
+  bufferedFrames: number;
+  /** Set on an output built by a context reset, until it starts and fades in. */
+  contextReset?: boolean;
+  /** The output this one replaced on a context reset, faded out once this one starts. */
+  previous?: Output;
+  /** Audio scheduled on this output while `previous` is still heard, announced once the crossfade starts. */
+  held: ScheduledAudio[];
+}
+
 export class LiveMusicHelper extends EventTarget {
 
   private ai: GoogleGenAI;
@@ -19,19 +60,32 @@ export class LiveMusicHelper extends EventTarget {
   private sessionPromise: Promise<LiveMusicSession> | null = null;
 
   private connectionError = true;
+  /** Bumped for every new connection, and on stop, so callbacks from old ones are ignored. */
+  private connectionId = 0;
+  private reconnectAttempt = 0;
 
   private filteredPrompts = new Set<string>();
+  /** When the audio queued so far is expected to finish, in AudioContext time. */
   private nextStartTime = 0;
-  private bufferTime = 2;
+  private readonly jitterBuffer = new JitterBuffer();
+  private readonly decoder = new PcmDecoder();
+  private workletLoaded: Promise<void> | null = null;
 
   public readonly audioContext: AudioContext;
   public extraDestination: AudioNode | null = null;
+  /** Always-on ring buffer of the most recent output, for capturing after the fact. */
+  public readonly replayBuffer: AudioRecorder;
 
-  private outputNode: GainNode;
-  private playbackState: PlaybackState = 'stopped';
+  private output: Output | null = null;
+  private readonly playback = new PlaybackStateMachine();
 
   private prompts: Map<string, Prompt>;
-  private _tempoBpm = 120;
+  private config: LiveMusicGenerationConfig = { ...DEFAULT_GENERATION_CONFIG, bpm: 120 };
+  private configTimer: ReturnType<typeof setTimeout> | null = null;
+  /** The tempo and scale the model's context was built with; changing either needs a reset. */
+  private contextConfig: Pick<LiveMusicGenerationConfig, 'bpm' | 'scale'> = { bpm: 120 };
+  private contextResetTimer: ReturnType<typeof setTimeout> | null = null;
+  private contextResetState: ContextResetState = 'idle';
 
   constructor(ai: GoogleGenAI, model: string) {
     super();
@@ -39,16 +93,139 @@ export class LiveMusicHelper extends EventTarget {
     this.model = model;
     this.prompts = new Map();
     this.audioContext = new AudioContext({ sampleRate: 48000 });
-    this.outputNode = this.audioContext.createGain();
+    this.replayBuffer = new AudioRecorder(this, REPLAY_SECONDS);
+    this.replayBuffer.start();
+    this.playback.addEventListener('playback-state-changed', (e: Event) => {
+      const state = (e as CustomEvent<PlaybackState>).detail;
+      this.dispatchEvent(new CustomEvent<PlaybackState>('playback-state-changed', { detail: state }));
+    });
+  }
+
+  public get playbackState(): PlaybackState {
+    return this.playback.state;
   }
 
   public get tempoBpm() {
-    return this._tempoBpm;
+    return this.config.bpm!;
   }
 
   public set tempoBpm(val: number) {
-    this._tempoBpm = val;
+    this.config = { ...this.config, bpm: val };
+    this.updateConfig();
+    this.checkContextReset();
+  }
+
+  public get generationConfig(): GenerationConfig {
+    const { bpm, ...config } = this.config;
+    return config;
+  }
+
+  /** Merges `patch` into the config; an explicit `undefined` hands that setting back to the model. */
+  public setGenerationConfig(patch: GenerationConfig) {
+    this.config = { ...this.config, ...patch };
     this.updateConfig();
+    this.checkContextReset();
+  }
+
+  /**
+   * Tempo and scale only take effect once the context is reset, which also
+   * throws away what the model was playing; waits for them to settle first.
+   */
+  private checkContextReset() {
+    if (this.contextResetTimer !== null) clearTimeout(this.contextResetTimer);
+    this.contextResetTimer = null;
+    const { bpm, scale } = this.config;
+    if (bpm === this.contextConfig.bpm && scale === this.contextConfig.scale) {
+      // A change that needs no reset leaves an 'applied' from the last one showing.
+      if (this.contextResetState === 'pending') this.setContextResetState('idle');
+      return;
+    }
+    this.setContextResetState('pending');
+    this.contextResetTimer = setTimeout(() => {
+      this.contextResetTimer = null;
+      this.resetContext();
+    }, CONTEXT_RESET_DEBOUNCE_MS);
+  }
+
+  /**
+   * Resets the context with the new config. While playing, the audio already
+   * queued carries on in the old output until the new context's audio is
+   * buffered in a fresh one, then the two crossfade.
+   */
+  private async resetContext() {
+    const session = this.session;
+    if (!session) {
+      // The next session starts from the current config anyway.
+      this.markContextApplied();
+      return;
+    }
+    await this.sendConfig();
+    if (session !== this.session) return;
+    session.resetContext();
+    const previous = this.output;
+    if (!previous || !this.playback.is('buffering', 'playing')) {
+      this.markContextApplied();
+      return;
+    }
+    this.contextConfig = { bpm: this.config.bpm, scale: this.config.scale };
+    this.output = this.createOutput();
+    this.output.gain.gain.setValueAtTime(0, this.audioContext.currentTime);
+    this.output.contextReset = true;
+    // Whatever is heard keeps playing, and recording, until the crossfade. An
+    // earlier reset's output still buffering was never heard, so it just goes.
+    const heard = previous.running ? previous : previous.previous;
+    this.output.previous = heard;
+    if (!previous.running) {
+      this.releaseOutput(previous, OUTPUT_FADE_SECONDS);
+      if (!heard) {
+        this.dispatchEvent(new CustomEvent<OutputCut>('output-cut', {
+          detail: { time: this.audioContext.currentTime, fade: OUTPUT_FADE_SECONDS },
+        }));
+      }
+    }
+    this.nextStartTime = 0;
+    this.jitterBuffer.resetTiming();
+  }
+
+  private markContextApplied() {
+    if (this.contextResetTimer !== null) clearTimeout(this.contextResetTimer);
+    this.contextResetTimer = null;
+    const pending = this.config.bpm !== this.contextConfig.bpm || this.config.scale !== this.contextConfig.scale;
+    this.contextConfig = { bpm: this.config.bpm, scale: this.config.scale };
+    if (pending) this.setContextResetState('applied');
+  }
+
+  private setContextResetState(state: ContextResetState) {
+    if (state === this.contextResetState) return;
+    this.contextResetState = state;
+    this.dispatchEvent(new CustomEvent<ContextResetState>('context-reset', { detail: state }));
+  }
+
+  /**
+   * Fades in an output built by a context reset, crossfading from the one it
+   * replaced if that was still playing.
+   */
+  private crossfade(output: Output) {
+    const { previous } = output;
+    output.contextReset = false;
+    output.previous = undefined;
+    const now = this.audioContext.currentTime;
+    output.gain.gain.setValueAtTime(0, now);
+    output.gain.gain.linearRampToValueAtTime(1, now + CONTEXT_RESET_CROSSFADE_SECONDS);
+    if (previous) {
+      this.releaseOutput(previous, CONTEXT_RESET_CROSSFADE_SECONDS);
+      // Recordings fade out the old context where the listener hears it go, then carry on with the new one.
+      this.dispatchEvent(new CustomEvent<OutputCut>('output-cut', { detail: { time: now, fade: CONTEXT_RESET_CROSSFADE_SECONDS } }));
+      // The held audio starts playing now, whenever it was expected to.
+      let startTime = now;
+      for (const audio of output.held) {
+        this.dispatchEvent(new CustomEvent<ScheduledAudio>('audio-scheduled', { detail: { ...audio, startTime } }));
+        startTime += audio.channels[0].length / audio.sampleRate;
+      }
+      output.held = [];
+    }
+    // A change made since this reset started is still pending.
+    if (this.contextResetTimer === null) this.setContextResetState('applied');
   }
 
   private getSession(): Promise<LiveMusicSession> {
@@ -57,10 +234,12 @@ export class LiveMusicHelper extends EventTarget {
   }
 
   private async connect(): Promise<LiveMusicSession> {
+    const connectionId = ++this.connectionId;
     this.sessionPromise = this.ai.live.music.connect({
       model: this.model,
       callbacks: {
         onmessage: async (e: LiveMusicServerMessage) => {
+          if (connectionId !== this.connectionId) return;
           if (e.setupComplete) {
             this.connectionError = false;
           }
@@ -72,50 +251,206 @@ export class LiveMusicHelper extends EventTarget {
             await this.processAudioChunks(e.serverContent.audioChunks);
           }
         },
-        onerror: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
-        onclose: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
+        onerror: () => this.handleConnectionLost(connectionId),
+        onclose: () => this.handleConnectionLost(connectionId),
       },
     });
     return this.sessionPromise;
   }
 
-  private setPlaybackState(state: PlaybackState) {
-    this.playbackState = state;
-    this.dispatchEvent(new CustomEvent('playback-state-changed', { detail: state }));
+  /**
+   * Drops the session. If music was playing, retries with exponential
+   * backoff; otherwise the next play() simply connects again.
+   */
+  private handleConnectionLost(connectionId: number) {
+    if (connectionId !== this.connectionId) return;
+    this.connectionId++;
+    this.connectionError = true;
+    this.session = null;
+    this.sessionPromise = null;
+    if (this.playback.is('buffering', 'playing', 'reconnecting')) {
+      this.scheduleReconnect();
+    } else if (this.playback.is('connecting')) {
+      this.fail('Could not connect, please try again.');
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.fail('Connection lost and could not be restored, please restart audio.');
+      return;
+    }
+    const delayMs = Math.min(RECONNECT_BASE_MS * 2 ** this.reconnectAttempt, RECONNECT_MAX_MS);
+    this.reconnectAttempt++;
+    this.playback.transition('reconnecting');
+    this.dispatchEvent(new CustomEvent<ReconnectAttempt>('reconnecting', {
+      detail: { attempt: this.reconnectAttempt, maxAttempts: MAX_RECONNECT_ATTEMPTS, delayMs },
+    }));
+    this.playback.schedule(() => this.reconnect(), delayMs);
+  }
+
+  /** Opens a new session and picks up where the old one left off. */
+  private async reconnect() {
+    const sessionPromise = this.getSession();
+    const connectionId = this.connectionId;
+    try {
+      const session = await sessionPromise;
+      if (!this.playback.is('reconnecting') || connectionId !== this.connectionId) {
+        // Paused, stopped or superseded meanwhile; nothing will use this session.
+        session.stop();
+        if (connectionId === this.connectionId) this.closeSession();
+        return;
+      }
+      this.session = session;
+      await this.sendWeightedPrompts();
+      await this.sendConfig();
+      this.markContextApplied();
+      session.play();
+    } catch (e) {
+      this.handleConnectionLost(connectionId);
+      return;
+    }
+    // Audio queued before the drop may still be playing; carry on after it.
+    this.playback.transition(this.output?.running ? 'playing' : 'buffering');
+  }
+
+  /** Silences the output and waits in 'error' for the user to play again. */
+  private fail(message: string) {
+    if (this.playback.is('error')) return;
+    this.closeSession();
+    this.fadeOutput();
+    this.playback.transition('error');
+    this.dispatchEvent(new CustomEvent('error', { detail: message }));
+  }
+
+  /** Forgets the session; its callbacks are ignored from here on. */
+  private closeSession() {
+    this.connectionId++;
+    this.reconnectAttempt = 0;
+    this.session = null;
+    this.sessionPromise = null;
+  }
+
+  /**
+   * Fades out the current output and lets it go, so audio already queued in
+   * its worklet is never heard; play() builds a fresh one.
+   */
+  private fadeOutput() {
+    const now = this.audioContext.currentTime;
+    if (this.output) {
+      this.releaseOutput(this.output, OUTPUT_FADE_SECONDS);
+      if (this.output.previous) this.releaseOutput(this.output.previous, OUTPUT_FADE_SECONDS);
+    }
+    this.dispatchEvent(new CustomEvent<OutputCut>('output-cut', { detail: { time: now, fade: OUTPUT_FADE_SECONDS } }));
+    this.output = null;
+    this.nextStartTime = 0;
+    this.jitterBuffer.resetTiming();
+  }
+
+  /** Fades an output to silence from wherever its gain is, then disconnects it and ends its processor. */
+  private releaseOutput(output: Output, fade: number) {
+    const now = this.audioContext.currentTime;
+    output.gain.gain.cancelScheduledValues(now);
+    output.gain.gain.setValueAtTime(output.gain.gain.value, now);
+    output.gain.gain.linearRampToValueAtTime(0, now + fade);
+    setTimeout(() => {
+      output.worklet.disconnect();
+      output.gain.disconnect();
+      output.worklet.port.postMessage({ type: 'dispose' } satisfies PlaybackCommand);
+      // The processor closes the port, so the command is not lost to a close from this end.
+      output.worklet.port.onmessage = null;
+    }, fade * 1000 + 50);
+  }
+
+  private loadWorklet(): Promise<void> {
+    if (!this.workletLoaded) this.workletLoaded = this.audioContext.audioWorklet.addModule(playbackWorkletUrl);
+    return this.workletLoaded;
+  }
+
+  private createOutput(): Output {
+    const worklet = new AudioWorkletNode(this.audioContext, PLAYBACK_PROCESSOR, { outputChannelCount: [2] });
+    const gain = this.audioContext.createGain();
+    const output: Output = { worklet, gain, running: false, bufferedFrames: 0, held: [] };
+    worklet.port.onmessage = (e: MessageEvent<PlaybackReport>) => this.handleReport(output, e.data);
+    worklet.connect(gain);
+    gain.connect(this.audioContext.destination);
+    if (this.extraDestination) gain.connect(this.extraDestination);
+    this.postThreshold(output);
+    return output;
+  }
+
+  private handleReport(output: Output, report: PlaybackReport) {
+    if (output !== this.output) return;
+    switch (report.type) {
+      case 'started':
+        output.running = true;
+        if (output.contextReset) this.crossfade(output);
+        if (this.playback.is('buffering')) this.playback.transition('playing');
+        break;
+      case 'underrun':
+        output.running = false;
+        this.nextStartTime = 0;
+        this.jitterBuffer.recordUnderrun(this.audioContext.currentTime);
+        this.postThreshold(output);
+        // While reconnecting the queue is expected to run dry; reconnect() picks the state.
+        if (this.playback.is('playing')) this.playback.transition('buffering');
+        this.dispatchEvent(new CustomEvent<BufferStats>('buffer-stats', { detail: this.bufferStats }));
+        break;
+      case 'status':
+        output.bufferedFrames = report.bufferedFrames;
+        break;
+    }
+  }
+
+  private postThreshold(output: Output) {
+    const frames = Math.round(this.jitterBuffer.target * this.audioContext.sampleRate);
+    output.worklet.port.postMessage({ type: 'threshold', frames } satisfies PlaybackCommand);
   }
 
   private async processAudioChunks(audioChunks: AudioChunk[]) {
-    if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
-    const audioBuffer = await decodeAudioData(
-      decode(audioChunks[0].data!),
-      this.audioContext,
-      48000,
-      2,
+    if (!this.playback.is('buffering', 'playing')) return;
+    // Only audio arriving proves a reconnect worked; a session that opens and drops again keeps counting.
+    this.reconnectAttempt = 0;
+    const sampleRate = this.audioContext.sampleRate;
+    // Decodes are queued synchronously and resolve in order, so chunks from
+    // successive messages are pushed in the order they arrived.
+    const results = await Promise.allSettled(
+      audioChunks.filter((chunk) => chunk.data).map((chunk) => this.decoder.decode(chunk, sampleRate, 2)),
     );
-    const source = this.audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.outputNode);
-    if (this.nextStartTime === 0) {
-      this.nextStartTime = this.audioContext.currentTime + this.bufferTime;
-      setTimeout(() => {
-        this.setPlaybackState('playing');
-      }, this.bufferTime * 1000);
-    }
-    if (this.nextStartTime < this.audioContext.currentTime) {
-      this.setPlaybackState('loading');
-      this.nextStartTime = 0;
-      return;
+    // A chunk that fails to decode is skipped; the rest of the message still plays.
+    const decoded: Float32Array[][] = [];
+    for (const result of results) {
+      if (result.status === 'fulfilled') decoded.push(result.value);
+      else console.warn('Skipping an undecodable audio chunk.', result.reason);
+    }
+    const output = this.output;
+    if (!output || decoded.length === 0 || !this.playback.is('buffering', 'playing')) return;
+
+    const now = this.audioContext.currentTime;
+    const duration = decoded.reduce((sum, channels) => sum + channels[0].length, 0) / sampleRate;
+    this.jitterBuffer.recordArrival(now, duration);
+    if (!output.running) this.postThreshold(output);
+    if (this.nextStartTime < now) this.nextStartTime = now + (output.running ? 0 : this.jitterBuffer.target);
+
+    for (const channels of decoded) {
+      const scheduled: ScheduledAudio = { channels, sampleRate, startTime: this.nextStartTime };
+      // Copied, since the push below hands the buffers over to the worklet.
+      if (output.previous) output.held.push({ ...scheduled, channels: channels.map((c) => c.slice()) });
+      else this.dispatchEvent(new CustomEvent<ScheduledAudio>('audio-scheduled', { detail: scheduled }));
+      output.worklet.port.postMessage({ type: 'push', channels } satisfies PlaybackCommand, channels.map((c) => c.buffer));
+      this.nextStartTime += channels[0].length / sampleRate;
     }
-    source.start(this.nextStartTime);
-    this.nextStartTime += audioBuffer.duration;
+    this.dispatchEvent(new CustomEvent<BufferStats>('buffer-stats', { detail: this.bufferStats }));
+  }
+
+  public get bufferStats(): BufferStats {
+    return this.jitterBuffer.stats((this.output?.bufferedFrames ?? 0) / this.audioContext.sampleRate);
+  }
+
+  /** Sets the range, in seconds, the adaptive buffer may move within. */
+  public setBufferBounds(min: number, max: number) {
+    this.jitterBuffer.setBounds(min, max);
+    this.dispatchEvent(new CustomEvent<BufferStats>('buffer-stats', { detail: this.bufferStats }));
   }
 
   public get activePrompts() {
@@ -125,17 +460,27 @@ export class LiveMusicHelper extends EventTarget {
       })
   }
 
-  private readonly updateConfig = throttle(async () => {
+  /**
+   * Sends config changes at most every CONFIG_UPDATE_MS. Unlike a throttle it
+   * always ends on the latest values, so the end of a slider drag is never lost.
+   */
+  private updateConfig() {
+    if (this.configTimer !== null) return;
+    this.configTimer = setTimeout(() => {
+      this.configTimer = null;
+      this.sendConfig();
+    }, CONFIG_UPDATE_MS);
+  }
+
+  /** Sends the whole config, unthrottled; the session resets any field left out. */
+  private async sendConfig() {
     if (!this.session) return;
     try {
-      // Assuming setMusicConfig or similar exists. If not, we fall back to prompt injection.
-      if (typeof (this.session as any).setMusicConfig === 'function') {
-        await (this.session as any).setMusicConfig({ tempoBpm: this._tempoBpm });
-      }
-    } catch (e) {
-      console.warn('Tempo config not supported directly, using prompt injection if possible.');
+      await this.session.setMusicGenerationConfig({ musicGenerationConfig: this.config });
+    } catch (e: any) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
     }
-  }, 500);
+  }
 
   public readonly setWeightedPrompts = throttle(async (prompts: Map<string, Prompt>) => {
     this.prompts = prompts;
@@ -148,66 +493,90 @@ export class LiveMusicHelper extends EventTarget {
 
     if (!this.session) return;
 
+    try {
+      await this.sendWeightedPrompts();
+    } catch (e: any) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+      this.pause();
+    }
+  }, 200);
+
+  /** Sends the current prompts straight to the session, unthrottled. */
+  private async sendWeightedPrompts() {
+    if (!this.session) return;
     const weightedPrompts = this.activePrompts.map((p) => {
       let text = p.text;
       if (p.selectedInstrument) {
         text = `${p.text} featuring ${p.selectedInstrument}`;
       }
-      // Inject density information into prompt as the API might handle it as a descriptive keyword
+      // The config's density is global; a slot's own density can only be described.
       const densityDesc = p.density > 0.7 ? 'busy and complex' : p.density < 0.3 ? 'sparse and minimal' : 'moderate density';
-      return { text: `${text}, ${densityDesc} at ${this._tempoBpm} BPM`, weight: p.weight };
+      return { text: `${text}, ${densityDesc}`, weight: p.weight };
+    });
+    await this.session.setWeightedPrompts({
+      weightedPrompts,
     });
+  }
 
+  public async play() {
+    if (!this.playback.transition('connecting')) return;
+    // A paused session resumes with the context it had; only a new one starts from the current config.
+    const newSession = !this.session;
+    const sessionPromise = this.getSession();
+    const connectionId = this.connectionId;
     try {
-      await this.session.setWeightedPrompts({
-        weightedPrompts,
-      });
-      await this.updateConfig();
+      const session = await sessionPromise;
+      // Stopped while connecting: the session was forgotten, so close it rather than bring it back.
+      if (connectionId !== this.connectionId) {
+        session.stop();
+        return;
+      }
+      this.session = session;
+      await this.loadWorklet();
     } catch (e: any) {
-      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
-      this.pause();
+      if (connectionId === this.connectionId) this.fail(e.message ?? 'Could not connect, please try again.');
+      return;
     }
-  }, 200);
-
-  public async play() {
-    this.setPlaybackState('loading');
-    this.session = await this.getSession();
     await this.setWeightedPrompts(this.prompts);
+    await this.sendConfig();
+    if (newSession) this.markContextApplied();
+    // The user may have stopped, or the prompts paused us, while connecting.
+    if (!this.playback.is('connecting') || !this.session) return;
     this.audioContext.resume();
     this.session.play();
-    this.outputNode.connect(this.audioContext.destination);
-    if (this.extraDestination) this.outputNode.connect(this.extraDestination);
-    this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
+    this.output = this.createOutput();
+    this.output.gain.gain.setValueAtTime(0, this.audioContext.currentTime);
+    this.output.gain.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + OUTPUT_FADE_SECONDS);
+    this.playback.transition('buffering');
   }
 
   public pause() {
+    if (!this.playback.canTransition('paused')) return;
+    this.playback.transition('paused');
+    this.reconnectAttempt = 0;
     if (this.session) this.session.pause();
-    this.setPlaybackState('paused');
-    this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
-    this.outputNode = this.audioContext.createGain();
+    this.fadeOutput();
   }
 
   public stop() {
+    if (!this.playback.canTransition('stopped')) return;
+    this.playback.transition('stopped');
     if (this.session) this.session.stop();
-    this.setPlaybackState('stopped');
-    this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
-    this.session = null;
-    this.sessionPromise = null;
+    this.closeSession();
+    this.fadeOutput();
   }
 
   public async playPause() {
-    switch (this.playbackState) {
+    switch (this.playback.state) {
       case 'playing':
+      case 'buffering':
         return this.pause();
       case 'paused':
       case 'stopped':
+      case 'error':
         return this.play();
-      case 'loading':
+      case 'connecting':
+      case 'reconnecting':
         return this.stop();
     }
   }
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiDispatcher } from './MidiDispatcher';
+
+/** MIDI timing clock runs at 24 pulses per quarter note. */
+const CLOCK_PPQN = 24;
+
+/** How far ahead of the audio clock ticks are queued, in seconds. */
+const LOOKAHEAD = 0.1;
+
+/** How often the scheduler wakes up, in seconds of audio time. */
+const WAKE_INTERVAL = 0.025;
+
+/**
+ * Sends MIDI timing clock and Start/Stop at the session tempo.
+ * Ticks are timed against the AudioContext clock and handed to the output
+ * with timestamps, so main-thread jank does not turn into clock jitter.
+ */
+export class MidiClockGenerator {
+  private readonly audioContext: AudioContext;
+  private readonly midiDispatcher: MidiDispatcher;
+
+  public tempoBpm = 120;
+
+  private running = false;
+  private nextTickTime = 0;
+  private timer: ConstantSourceNode | null = null;
+
+  constructor(audioContext: AudioContext, midiDispatcher: MidiDispatcher) {
+    this.audioContext = audioContext;
+    this.midiDispatcher = midiDispatcher;
+    this.schedule = this.schedule.bind(this);
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.midiDispatcher.sendClock([0xfa]);
+    this.nextTickTime = this.audioContext.currentTime + WAKE_INTERVAL;
+    this.schedule();
+  }
+
+  stop() {
+    if (!this.running) return;
+    this.running = false;
+    if (this.timer) {
+      this.timer.onended = null;
+      this.timer.stop();
+      this.timer.disconnect();
+      this.timer = null;
+    }
+    this.midiDispatcher.sendClock([0xfc]);
+  }
+
+  private schedule() {
+    if (!this.running) return;
+    const horizon = this.audioContext.currentTime + LOOKAHEAD;
+    while (this.nextTickTime < horizon) {
+      this.midiDispatcher.sendClock([0xf8], this.toPerformanceTime(this.nextTickTime));
+      this.nextTickTime += 60 / (this.tempoBpm * CLOCK_PPQN);
+    }
+    this.wakeAfter(WAKE_INTERVAL);
+  }
+
+  /** Uses a silent source's onended as a timer that runs on the audio clock. */
+  private wakeAfter(seconds: number) {
+    const timer = this.audioContext.createConstantSource();
+    timer.offset.value = 0;
+    timer.connect(this.audioContext.destination);
+    timer.onended = () => {
+      timer.disconnect();
+      this.schedule();
+    };
+    const now = this.audioContext.currentTime;
+    timer.start(now);
+    timer.stop(now + seconds);
+    this.timer = timer;
+  }
+
+  private toPerformanceTime(contextTime: number) {
+    const { contextTime: stampContextTime = 0, performanceTime = performance.now() } =
+      this.audioContext.getOutputTimestamp();
+    return performanceTime + (contextTime - stampContextTime) * 1000;
+  }
+}
@@ -2,69 +2,655 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { ControlChange } from '../types';
+import type {
+  ControlChange,
+  DeviceIdentity,
+  MidiChannel,
+  MidiLogEntry,
+  ModulationMessage,
+  NoteMessage,
+  NrpnMessage,
+  ProgramChange,
+  TransportMessage,
+} from '../types';
 
-/** Simple class for dispatching MIDI CC messages as events. */
+/** MIDI timing clock runs at 24 pulses per quarter note. */
+const CLOCK_PPQN = 24;
+
+/** Ticks further apart than this mean the master clock stopped. */
+const CLOCK_TIMEOUT_MS = 500;
+
+/** Weight of each new tick interval in the running average. */
+const CLOCK_SMOOTHING = 0.1;
+
+/** Controller numbers that select and edit (N)RPN parameters. */
+const NRPN_MSB = 99;
+const NRPN_LSB = 98;
+const RPN_MSB = 101;
+const RPN_LSB = 100;
+const DATA_ENTRY_MSB = 6;
+const DATA_ENTRY_LSB = 38;
+const DATA_INCREMENT = 96;
+const DATA_DECREMENT = 97;
+
+const BANK_SELECT_MSB = 0;
+const BANK_SELECT_LSB = 32;
+
+/** Universal Non-Realtime Identity Request, addressed to all devices. */
+const IDENTITY_REQUEST = [0xf0, 0x7e, 0x7f, 0x06, 0x01, 0xf7];
+
+const MANUFACTURERS: Record<string, string> = {
+  '41': 'Roland',
+  '42': 'Korg',
+  '43': 'Yamaha',
+  '47': 'Akai',
+  '00 00 0E': 'Alesis',
+  '00 20 29': 'Novation',
+  '00 20 32': 'Behringer',
+  '00 20 6B': 'Arturia',
+  '00 21 09': 'Native Instruments',
+};
+
+const hex = (byte: number) => byte.toString(16).toUpperCase().padStart(2, '0');
+
+/** Parses an Identity Reply (F0 7E dd 06 02 ...), or returns null for any other SysEx. */
+function parseIdentityReply(data: Uint8Array): DeviceIdentity | null {
+  if (data.length < 15 || data[1] !== 0x7e || data[3] !== 0x06 || data[4] !== 0x02) return null;
+  let i = 5;
+  const idLength = data[i] === 0x00 ? 3 : 1;
+  const manufacturerId = [...data.slice(i, i + idLength)].map(hex).join(' ');
+  i += idLength;
+  if (data.length < i + 9) return null;
+  return {
+    manufacturerId,
+    manufacturer: MANUFACTURERS[manufacturerId] ?? `Manufacturer ${manufacturerId}`,
+    family: data[i] | (data[i + 1] << 7),
+    model: data[i + 2] | (data[i + 3] << 7),
+    version: [...data.slice(i + 4, i + 8)].join('.'),
+  };
+}
+
+const CHANNEL_MESSAGE_TYPES: Record<number, string> = {
+  0x80: 'Note Off',
+  0x90: 'Note On',
+  0xa0: 'Poly Aftertouch',
+  0xb0: 'CC',
+  0xc0: 'Program Change',
+  0xd0: 'Channel Pressure',
+  0xe0: 'Pitch Bend',
+};
+
+const SYSTEM_MESSAGE_TYPES: Record<number, string> = {
+  0xf0: 'SysEx',
+  0xf8: 'Clock',
+  0xfa: 'Start',
+  0xfb: 'Continue',
+  0xfc: 'Stop',
+  0xfe: 'Active Sensing',
+  0xff: 'Reset',
+};
+
+/** Selecting parameter 127/127 deselects, so data entry goes back to being plain CCs. */
+const NULL_PARAMETER = 127;
+
+/** Per-channel (N)RPN selection and data entry state. */
+interface ParameterState {
+  nrpnMsb: number | null;
+  nrpnLsb: number | null;
+  rpnMsb: number | null;
+  rpnLsb: number | null;
+  isRpn: boolean;
+  value: number;
+}
+
+/** Simple class for dispatching MIDI CC and note messages as events. */
 export class MidiDispatcher extends EventTarget {
   private access: MIDIAccess | null = null;
-  activeMidiInputId: string | null = null;
+  private _activeMidiOutputId: string | null = null;
+  clockOutputId: string | null = null;
+
+  /**
+   * Opt-in: treat CCs 0 and 32 as Bank Select for Program Change instead of
+   * passing them on, since slot 1 is mapped to CC 0 by default.
+   */
+  bankSelectEnabled = false;
+  private banks = new Map<number, number>();
+
+  /** Opt-in: request SysEx access and ask each device to identify itself. */
+  sysexEnabled = false;
+  private identities = new Map<string, DeviceIdentity>();
+
+  /** Inputs the user switched off; every other connected input is listened to. */
+  private disabledInputIds = new Set<string>();
+
+  /** Inputs already announced with `device-connected`. */
+  private connectedInputIds = new Set<string>();
+
+  /** Software inputs, by id, that feed messages in through `receive`. */
+  private virtualInputs = new Map<string, string>();
+
+  /**
+   * The last value seen in either direction for each channel/CC or
+   * channel/note, so feedback never echoes back what was just received.
+   * Describes the device on the active output, so it is cleared when that changes.
+   */
+  private lastValues = new Map<string, number>();
+  /** The channel each CC or note last arrived on, where omni mappings send their feedback. */
+  private lastChannels = new Map<string, number>();
+
+  /** The last 7-bit value of CCs 0-31 per channel, waiting for an LSB on CC+32. */
+  private msbValues = new Map<string, number>();
+  private parameterStates = new Map<number, ParameterState>();
+
+  /** The log entry for the message being dispatched, so mappings can mark it consumed. */
+  private currentLogEntry: MidiLogEntry | null = null;
+  private lastActivity = new Map<string, number>();
+
+  private lastClockTime: number | null = null;
+  private averageTickMs: number | null = null;
+  private clockTicks = 0;
+
+  get activeMidiOutputId(): string | null {
+    return this._activeMidiOutputId;
+  }
+
+  set activeMidiOutputId(id: string | null) {
+    if (id === this._activeMidiOutputId) return;
+    this._activeMidiOutputId = id;
+    this.lastValues.clear();
+  }
+
+  /** Whether Web MIDI access was granted; virtual inputs work without it. */
+  get hasAccess(): boolean {
+    return this.access !== null;
+  }
 
   async getMidiAccess(): Promise<string[]> {
 
     if (this.access) {
-      return [...this.access.inputs.keys()];
+      return this.inputIds;
     }
 
     if (!navigator.requestMIDIAccess) {
       throw new Error('Your browser does not support the Web MIDI API. For a list of compatible browsers, see https://caniuse.com/midi');
     }
 
-    this.access = await navigator
-      .requestMIDIAccess({ sysex: false })
-      .catch((error) => error);
+    this.access = await this.requestAccess();
+
+    if (this.activeMidiOutputId === null) {
+      this.activeMidiOutputId = this.findOutputForInput(this.enabledInputIds[0] ?? null);
+    }
+
+    for (const input of this.access.inputs.values()) {
+      this.attachInput(input);
+    }
+
+    this.access.onstatechange = (event: Event) => {
+      this.handleStateChange(event as MIDIConnectionEvent);
+    };
 
-    if (this.access === null) {
+    return this.inputIds;
+  }
+
+  /** Asks for SysEx when opted in, falling back to plain access if refused. */
+  private async requestAccess(): Promise<MIDIAccess> {
+    if (this.sysexEnabled) {
+      try {
+        return await navigator.requestMIDIAccess({ sysex: true });
+      } catch (e) {
+        console.warn('SysEx access denied, falling back to plain MIDI.', e);
+        this.sysexEnabled = false;
+        this.dispatchEvent(new CustomEvent('sysex-denied'));
+      }
+    }
+    try {
+      return await navigator.requestMIDIAccess({ sysex: false });
+    } catch {
       throw new Error('Unable to acquire MIDI access.');
     }
+  }
+
+  /**
+   * Turns SysEx identification on or off. Enabling it on plain access asks
+   * the browser again, which re-attaches every input.
+   */
+  async setSysexEnabled(enabled: boolean) {
+    this.sysexEnabled = enabled;
+    if (!this.access) return;
+    if (enabled && !this.access.sysexEnabled) {
+      for (const input of this.access.inputs.values()) input.onmidimessage = null;
+      this.access.onstatechange = null;
+      this.access = null;
+      this.connectedInputIds.clear();
+      await this.getMidiAccess();
+    } else if (enabled) {
+      this.requestIdentities();
+    }
+  }
+
+  getIdentity(inputId: string): DeviceIdentity | undefined {
+    return this.identities.get(inputId);
+  }
+
+  /** Sends an Identity Request to the output paired with each input. */
+  private requestIdentities() {
+    for (const id of this.inputIds) this.requestIdentity(id);
+  }
+
+  private requestIdentity(inputId: string) {
+    if (!this.sysexEnabled || !this.access?.sysexEnabled) return;
+    const inputName = this.getDeviceName(inputId);
+    const outputId = this.outputIds.find((id) => this.getOutputName(id) === inputName);
+    if (!outputId) return;
+    this.sendTo(outputId, IDENTITY_REQUEST);
+  }
+
+  private handleSysex(inputId: string, data: Uint8Array) {
+    const identity = parseIdentityReply(data);
+    if (!identity) return;
+    this.identities.set(inputId, identity);
+    this.dispatchEvent(new CustomEvent<string>('device-identified', { detail: inputId }));
+  }
+
+  get inputIds(): string[] {
+    const hardware = this.access ? [...this.access.inputs.keys()] : [];
+    return [...hardware, ...this.virtualInputs.keys()];
+  }
+
+  /** Adds a software input that is listed, enabled and logged like hardware. */
+  addVirtualInput(id: string, name: string, enabled = true) {
+    this.virtualInputs.set(id, name);
+    this.setInputEnabled(id, enabled);
+    this.connectedInputIds.add(id);
+    this.dispatchEvent(new CustomEvent<string>('device-connected', { detail: id }));
+    this.dispatchEvent(new CustomEvent('devices-changed'));
+  }
+
+  /** Feeds a raw message from a virtual input through the normal pipeline. */
+  receive(inputId: string, data: Uint8Array) {
+    this.handleInput(inputId, data, performance.now());
+  }
+
+  get enabledInputIds(): string[] {
+    return this.inputIds.filter((id) => this.isInputEnabled(id));
+  }
+
+  isInputEnabled(id: string): boolean {
+    return !this.disabledInputIds.has(id);
+  }
+
+  setInputEnabled(id: string, enabled: boolean) {
+    if (enabled) {
+      this.disabledInputIds.delete(id);
+    } else {
+      this.disabledInputIds.add(id);
+    }
+  }
 
-    const inputIds = [...this.access.inputs.keys()];
+  private attachInput(input: MIDIInput) {
+    input.onmidimessage = (event: MIDIMessageEvent) => {
+      if (!event.data) {
+        console.error('MIDI message has no data');
+        return;
+      }
+      this.handleInput(input.id, event.data, event.timeStamp);
+    };
+    if (!this.connectedInputIds.has(input.id)) {
+      this.connectedInputIds.add(input.id);
+      this.dispatchEvent(new CustomEvent<string>('device-connected', { detail: input.id }));
+      this.requestIdentity(input.id);
+    }
+  }
 
-    if (inputIds.length > 0 && this.activeMidiInputId === null) {
-      this.activeMidiInputId = inputIds[0];
+  private handleInput(inputId: string, data: Uint8Array, timeStamp: number) {
+    this.lastActivity.set(inputId, performance.now());
+    this.dispatchEvent(new CustomEvent<string>('input-activity', { detail: inputId }));
+    // Clock ticks and active sensing would drown out the log.
+    const logged = data[0] !== 0xf8 && data[0] !== 0xfe;
+    if (logged) this.currentLogEntry = this.createLogEntry(inputId, data);
+
+    if (data[0] === 0xf0) {
+      this.handleSysex(inputId, data);
+    } else if (!this.isInputEnabled(inputId)) {
+      if (this.currentLogEntry) this.currentLogEntry.dropped = 'input disabled';
+    } else {
+      this.handleMessage(data, timeStamp);
     }
 
-    for (const input of this.access.inputs.values()) {
-      input.onmidimessage = (event: MIDIMessageEvent) => {
-        if (input.id !== this.activeMidiInputId) return;
+    if (this.currentLogEntry) {
+      this.dispatchEvent(new CustomEvent<MidiLogEntry>('midi-log', { detail: this.currentLogEntry }));
+      this.currentLogEntry = null;
+    }
+  }
+
+  private createLogEntry(inputId: string, data: Uint8Array): MidiLogEntry {
+    const status = data[0];
+    const isChannelMessage = status < 0xf0;
+    return {
+      time: performance.now(),
+      inputId,
+      device: this.getDeviceName(inputId) ?? inputId,
+      channel: isChannelMessage ? status & 0x0f : undefined,
+      type: (isChannelMessage ? CHANNEL_MESSAGE_TYPES[status & 0xf0] : SYSTEM_MESSAGE_TYPES[status]) ?? hex(status),
+      data: [...data.slice(isChannelMessage ? 1 : 0)].join(' '),
+      consumedBy: [],
+    };
+  }
 
-        const { data } = event;
-        if (!data) {
-          console.error('MIDI message has no data');
-          return;
-        }
+  /** Records that a mapping acted on the message currently being dispatched. */
+  markConsumed(label: string) {
+    this.currentLogEntry?.consumedBy.push(label);
+  }
+
+  /** When the input last sent anything, in performance.now() time. */
+  getLastActivity(inputId: string): number | undefined {
+    return this.lastActivity.get(inputId);
+  }
+
+  /**
+   * Keeps the device lists current as controllers are plugged in or out.
+   * Mappings are keyed on channel and CC, so they carry over untouched.
+   */
+  private handleStateChange(event: MIDIConnectionEvent) {
+    const port = event.port;
+    if (!port) return;
+
+    if (port.type === 'input' && port.state === 'connected') {
+      this.attachInput(port as MIDIInput);
+    } else if (port.type === 'input') {
+      this.connectedInputIds.delete(port.id);
+      this.identities.delete(port.id);
+    }
+
+    if (port.type === 'output' && port.state === 'connected') {
+      const inputId = this.inputIds.find((id) => this.getDeviceName(id) === port.name);
+      if (inputId && !this.identities.has(inputId)) this.requestIdentity(inputId);
+    }
+
+    // A device plugged back in has lost whatever feedback it was sent.
+    if (port.type === 'output' && port.state === 'connected' && port.id === this.activeMidiOutputId) {
+      this.lastValues.clear();
+    }
+
+    if (port.type === 'output') {
+      const activeGone = this.activeMidiOutputId !== null && !this.access?.outputs.has(this.activeMidiOutputId);
+      if (this.activeMidiOutputId === null || activeGone) {
+        this.activeMidiOutputId = this.findOutputForInput(this.enabledInputIds[0] ?? null);
+      }
+    }
+
+    this.dispatchEvent(new CustomEvent('devices-changed'));
+  }
+
+  private handleMessage(data: Uint8Array, timeStamp: number) {
+    const statusByte = data[0];
+    if (statusByte >= 0xf8) {
+      this.handleRealtime(statusByte, timeStamp);
+      return;
+    }
+
+    const channel = statusByte & 0x0f;
+    const messageType = statusByte & 0xf0;
+
+    const isControlChange = messageType === 0xb0;
+    const isProgramChange = messageType === 0xc0;
+    const isNoteOn = messageType === 0x90;
+    const isNoteOff = messageType === 0x80;
+    const isPitchBend = messageType === 0xe0;
+    const isChannelPressure = messageType === 0xd0;
+    const isPolyAftertouch = messageType === 0xa0;
+
+    if (isControlChange) {
+      this.handleControlChange(channel, data[1], data[2]);
+    } else if (isProgramChange) {
+      const detail: ProgramChange = { channel, bank: this.banks.get(channel) ?? 0, program: data[1] };
+      this.dispatchEvent(new CustomEvent<ProgramChange>('program-change', { detail }));
+    } else if (isNoteOn || isNoteOff) {
+      // A note-on with zero velocity is a note-off by convention.
+      const velocity = data[2];
+      this.lastValues.set(`note:${channel}:${data[1]}`, isNoteOn && velocity > 0 ? 1 : 0);
+      this.lastChannels.set(`note:${data[1]}`, channel);
+      const detail: NoteMessage = { note: data[1], velocity, channel, on: isNoteOn && velocity > 0 };
+      this.dispatchEvent(
+        new CustomEvent<NoteMessage>('note-message', { detail }),
+      );
+    } else if (isPitchBend) {
+      // 14-bit, LSB first, centred on 8192.
+      const bend = ((data[2] << 7) | data[1]) - 8192;
+      this.dispatchModulation({ channel, source: 'pitch-bend', value: bend / (bend < 0 ? 8192 : 8191) });
+    } else if (isChannelPressure) {
+      this.dispatchModulation({ channel, source: 'channel-pressure', value: data[1] / 127 });
+    } else if (isPolyAftertouch) {
+      this.dispatchModulation({ channel, source: 'poly-aftertouch', value: data[2] / 127, note: data[1] });
+    }
+  }
+
+  private dispatchModulation(detail: ModulationMessage) {
+    this.dispatchEvent(
+      new CustomEvent<ModulationMessage>('modulation-message', { detail }),
+    );
+  }
+
+  private handleControlChange(channel: number, cc: number, value: number) {
+    if (this.handleParameterControl(channel, cc, value)) return;
+    if (this.bankSelectEnabled && (cc === BANK_SELECT_MSB || cc === BANK_SELECT_LSB)) {
+      const bank = this.banks.get(channel) ?? 0;
+      this.banks.set(channel, cc === BANK_SELECT_MSB ? (value << 7) | (bank & 0x7f) : (bank & 0x3f80) | value);
+      this.markConsumed('bank select');
+      return;
+    }
+
+    this.lastValues.set(`cc:${channel}:${cc}`, value);
+    this.lastChannels.set(`cc:${cc}`, channel);
+    this.dispatchControlChange({ cc, value, channel });
+
+    // CCs 32-63 may carry the LSB of CCs 0-31; offer the pair as a 14-bit
+    // value on an extra event, which only high-resolution mappings act on.
+    if (cc < 32) {
+      this.msbValues.set(`${channel}:${cc}`, value);
+    } else if (cc < 64) {
+      const msbCc = cc - 32;
+      const msb = this.msbValues.get(`${channel}:${msbCc}`);
+      if (msb !== undefined) {
+        this.dispatchControlChange({ cc: msbCc, value: msb, value14: (msb << 7) | value, channel });
+      }
+    }
+  }
+
+  private dispatchControlChange(detail: ControlChange) {
+    this.dispatchEvent(
+      new CustomEvent<ControlChange>('cc-message', { detail }),
+    );
+  }
+
+  /**
+   * Assembles NRPN selection and data entry into `nrpn-message` events.
+   * Returns true when the CC was consumed as part of an (N)RPN sequence.
+   */
+  private handleParameterControl(channel: number, cc: number, value: number): boolean {
+    let state = this.parameterStates.get(channel);
+    if (!state) {
+      state = { nrpnMsb: null, nrpnLsb: null, rpnMsb: null, rpnLsb: null, isRpn: false, value: 0 };
+      this.parameterStates.set(channel, state);
+    }
+
+    switch (cc) {
+      case NRPN_MSB:
+      case NRPN_LSB:
+        if (cc === NRPN_MSB) state.nrpnMsb = value;
+        else state.nrpnLsb = value;
+        state.isRpn = false;
+        if (state.nrpnMsb === NULL_PARAMETER && state.nrpnLsb === NULL_PARAMETER) this.clearParameter(state);
+        return true;
+      case RPN_MSB:
+      case RPN_LSB:
+        // RPNs are not mappable; remember the selection so their data entry is swallowed.
+        if (cc === RPN_MSB) state.rpnMsb = value;
+        else state.rpnLsb = value;
+        state.isRpn = true;
+        if (state.rpnMsb === NULL_PARAMETER && state.rpnLsb === NULL_PARAMETER) this.clearParameter(state);
+        return true;
+    }
+
+    const isDataEntry = cc === DATA_ENTRY_MSB || cc === DATA_ENTRY_LSB
+      || cc === DATA_INCREMENT || cc === DATA_DECREMENT;
+    if (!isDataEntry) return false;
+    if (state.isRpn) return true;
+    if (state.nrpnMsb === null || state.nrpnLsb === null) return false;
 
-        const statusByte = data[0];
-        const channel = statusByte & 0x0f;
-        const messageType = statusByte & 0xf0;
+    if (cc === DATA_ENTRY_MSB) {
+      state.value = value << 7;
+    } else if (cc === DATA_ENTRY_LSB) {
+      state.value = (state.value & 0x3f80) | value;
+    } else {
+      const step = cc === DATA_INCREMENT ? 1 : -1;
+      state.value = Math.min(Math.max(state.value + step, 0), 0x3fff);
+    }
 
-        const isControlChange = messageType === 0xb0;
-        if (!isControlChange) return;
+    const detail: NrpnMessage = {
+      channel,
+      parameter: (state.nrpnMsb << 7) | state.nrpnLsb,
+      value: state.value,
+    };
+    this.dispatchEvent(new CustomEvent<NrpnMessage>('nrpn-message', { detail }));
+    return true;
+  }
 
-        const detail: ControlChange = { cc: data[1], value: data[2], channel };
-        this.dispatchEvent(
-          new CustomEvent<ControlChange>('cc-message', { detail }),
-        );
-      };
+  private clearParameter(state: ParameterState) {
+    state.nrpnMsb = null;
+    state.nrpnLsb = null;
+    state.rpnMsb = null;
+    state.rpnLsb = null;
+    state.isRpn = false;
+  }
+
+  private handleRealtime(statusByte: number, timeStamp: number) {
+    switch (statusByte) {
+      case 0xf8:
+        this.handleClockTick(timeStamp);
+        break;
+      case 0xfa:
+        this.dispatchTransport('start');
+        break;
+      case 0xfb:
+        this.dispatchTransport('continue');
+        break;
+      case 0xfc:
+        this.dispatchTransport('stop');
+        break;
     }
+  }
+
+  /** Smooths tick intervals and reports the tempo once per beat. */
+  private handleClockTick(timeStamp: number) {
+    const last = this.lastClockTime;
+    this.lastClockTime = timeStamp;
+    if (last === null || timeStamp - last > CLOCK_TIMEOUT_MS) {
+      this.averageTickMs = null;
+      this.clockTicks = 0;
+      return;
+    }
+
+    const interval = timeStamp - last;
+    this.averageTickMs = this.averageTickMs === null
+      ? interval
+      : this.averageTickMs + (interval - this.averageTickMs) * CLOCK_SMOOTHING;
+
+    this.clockTicks = (this.clockTicks + 1) % CLOCK_PPQN;
+    if (this.clockTicks !== 0) return;
 
-    return inputIds;
+    const bpm = 60000 / (this.averageTickMs * CLOCK_PPQN);
+    this.dispatchEvent(new CustomEvent<number>('clock-tempo', { detail: bpm }));
+  }
+
+  private dispatchTransport(message: TransportMessage) {
+    if (message === 'start') this.clockTicks = 0;
+    this.dispatchEvent(
+      new CustomEvent<TransportMessage>('transport-message', { detail: message }),
+    );
   }
 
   getDeviceName(id: string): string | null {
+    const virtualName = this.virtualInputs.get(id);
+    if (virtualName !== undefined) {
+      return virtualName;
+    }
     if (!this.access) {
       return null;
     }
     const input = this.access.inputs.get(id);
     return input ? input.name : null;
   }
+
+  get outputIds(): string[] {
+    return this.access ? [...this.access.outputs.keys()] : [];
+  }
+
+  getOutputName(id: string): string | null {
+    if (!this.access) {
+      return null;
+    }
+    const output = this.access.outputs.get(id);
+    return output ? output.name : null;
+  }
+
+  /** Picks the output whose name matches the given input, else the first. */
+  findOutputForInput(inputId: string | null): string | null {
+    const outputIds = this.outputIds;
+    const inputName = inputId ? this.getDeviceName(inputId) : null;
+    const match = outputIds.find((id) => this.getOutputName(id) === inputName);
+    return match ?? outputIds[0] ?? null;
+  }
+
+  /** Resolves omni to the channel the CC or note last arrived on, else channel 1. */
+  private feedbackChannel(channel: MidiChannel, key: string): number {
+    return channel === 'omni' ? this.lastChannels.get(key) ?? 0 : channel;
+  }
+
+  /** Sends a CC value to the active output unless it is already there. */
+  sendControlChange(mappingChannel: MidiChannel, cc: number, value: number) {
+    const channel = this.feedbackChannel(mappingChannel, `cc:${cc}`);
+    const key = `cc:${channel}:${cc}`;
+    if (this.lastValues.get(key) === value) return;
+    // Virtual inputs follow feedback like motorized faders.
+    this.dispatchEvent(new CustomEvent<ControlChange>('cc-feedback', { detail: { channel, cc, value } }));
+    if (this.send([0xb0 | channel, cc, value])) {
+      this.lastValues.set(key, value);
+    }
+  }
+
+  /** Lights or clears a note LED on the active output. */
+  sendNote(mappingChannel: MidiChannel, note: number, on: boolean) {
+    const channel = this.feedbackChannel(mappingChannel, `note:${note}`);
+    const key = `note:${channel}:${note}`;
+    const value = on ? 1 : 0;
+    if (this.lastValues.get(key) === value) return;
+    const message = on ? [0x90 | channel, note, 127] : [0x80 | channel, note, 0];
+    if (this.send(message)) {
+      this.lastValues.set(key, value);
+    }
+  }
+
+  /** Sends a real-time clock message to the clock output at a performance.now() time. */
+  sendClock(message: number[], timestamp?: number) {
+    this.sendTo(this.clockOutputId, message, timestamp);
+  }
+
+  private send(message: number[]): boolean {
+    return this.sendTo(this.activeMidiOutputId, message);
+  }
+
+  private sendTo(outputId: string | null, message: number[], timestamp?: number): boolean {
+    if (!this.access || outputId === null) return false;
+    const output = this.access.outputs.get(outputId);
+    if (!output) return false;
+    // Throws if the port went away mid-send, or on SysEx without SysEx access.
+    try {
+      output.send(message, timestamp);
+    } catch (e) {
+      console.warn(`Could not send MIDI to ${output.name ?? outputId}.`, e);
+      return false;
+    }
+    return true;
+  }
 }
@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ControlChange, MidiChannel, MidiMapping, MidiResponse, MidiSource, NoteMessage, NrpnMessage } from '../types';
+import type { MidiDispatcher } from './MidiDispatcher';
+import { applyResponse, decodeRelative, invertResponse, relativeDelta, resolveTakeover } from './midiResponse';
+
+/** A control that can be bound to a CC or note. */
+export interface MappableParameter {
+  label: string;
+  /**
+   * Continuous parameters receive a 0-1 value. Triggers fire on note-on, or
+   * when a CC rises past the midpoint, as footswitches and buttons send.
+   */
+  kind: 'continuous' | 'trigger';
+  apply(value: number): void;
+  /** The current 0-1 value, needed for soft takeover. */
+  read?(): number;
+}
+
+/** Formats a source for a badge, e.g. "CC:12 Ch1" or "Note:36 Omni". */
+export function describeMidiSource(source: MidiSource): string {
+  const channel = source.channel === 'omni' ? 'Omni' : `Ch${source.channel + 1}`;
+  switch (source.type) {
+    case 'cc':
+      return `CC:${source.cc} ${channel}`;
+    case 'note':
+      return `Note:${source.note} ${channel}`;
+    case 'nrpn':
+      return `NRPN:${source.parameter} ${channel}`;
+  }
+}
+
+/** Whether two sources would both respond to the same message. */
+export function sourcesConflict(a: MidiSource, b: MidiSource): boolean {
+  if (a.channel !== 'omni' && b.channel !== 'omni' && a.channel !== b.channel) return false;
+  switch (a.type) {
+    case 'cc':
+      return b.type === 'cc' && a.cc === b.cc;
+    case 'note':
+      return b.type === 'note' && a.note === b.note;
+    case 'nrpn':
+      return b.type === 'nrpn' && a.parameter === b.parameter;
+  }
+}
+
+/** How far a parameter may drift from a relative encoder's position before it resyncs. */
+const RELATIVE_RESYNC = 0.05;
+
+function matchesChannel(mappingChannel: MidiChannel, channel: number) {
+  return mappingChannel === 'omni' || mappingChannel === channel;
+}
+
+/**
+ * Registry of learnable parameters and their MIDI mappings.
+ * Components register the parameters they own; the registry handles learn
+ * mode and routes matching messages to them. Only one target learns at a
+ * time, and each learn is announced with `mapping-learned` so owners of
+ * bindings kept elsewhere (slot weights) can take it or give up a clash.
+ */
+export class MidiMappingRegistry extends EventTarget {
+  private parameters = new Map<string, MappableParameter>();
+  private mappings = new Map<string, MidiMapping>();
+  /** Last 0-1 controller position per target, for takeover and triggers. */
+  private lastPositions = new Map<string, number>();
+  /** Unquantized position and last step time per target, for relative encoders. */
+  private relativePositions = new Map<string, number>();
+  private lastStepTimes = new Map<string, number>();
+
+  learningTarget: string | null = null;
+  /** Set while the message a learn just took is still being dispatched, so nothing else acts on it. */
+  private learnedMessage = false;
+
+  private readonly midiDispatcher: MidiDispatcher;
+
+  constructor(midiDispatcher: MidiDispatcher) {
+    super();
+    this.midiDispatcher = midiDispatcher;
+    midiDispatcher.addEventListener('cc-message', (e: Event) => {
+      this.handleControlChange((e as CustomEvent<ControlChange>).detail);
+    });
+    midiDispatcher.addEventListener('note-message', (e: Event) => {
+      this.handleNote((e as CustomEvent<NoteMessage>).detail);
+    });
+    midiDispatcher.addEventListener('nrpn-message', (e: Event) => {
+      this.handleNrpn((e as CustomEvent<NrpnMessage>).detail);
+    });
+  }
+
+  register(target: string, parameter: MappableParameter) {
+    this.parameters.set(target, parameter);
+  }
+
+  unregister(target: string) {
+    this.parameters.delete(target);
+    if (this.learningTarget === target) this.cancelLearn();
+  }
+
+  get learnedCurrentMessage(): boolean {
+    return this.learnedMessage;
+  }
+
+  getParameter(target: string): MappableParameter | undefined {
+    return this.parameters.get(target);
+  }
+
+  getMapping(target: string): MidiMapping | undefined {
+    return this.mappings.get(target);
+  }
+
+  get allMappings(): MidiMapping[] {
+    return [...this.mappings.values()];
+  }
+
+  setMapping(mapping: MidiMapping) {
+    this.mappings.set(mapping.target, mapping);
+    this.notifyChanged();
+  }
+
+  /** Swaps in a whole set of mappings, e.g. from a controller profile. */
+  replaceMappings(mappings: MidiMapping[]) {
+    this.mappings = new Map(mappings.map((m) => [m.target, m]));
+    this.lastPositions.clear();
+    this.relativePositions.clear();
+    this.notifyChanged();
+  }
+
+  setResponse(target: string, response: MidiResponse) {
+    const mapping = this.mappings.get(target);
+    if (!mapping) return;
+    this.mappings.set(target, { ...mapping, response });
+    this.notifyChanged();
+  }
+
+  clearMapping(target: string) {
+    this.mappings.delete(target);
+    this.notifyChanged();
+  }
+
+  startLearn(target: string) {
+    this.learningTarget = target;
+    this.notifyChanged();
+  }
+
+  cancelLearn() {
+    this.learningTarget = null;
+    this.notifyChanged();
+  }
+
+  private notifyChanged() {
+    this.dispatchEvent(new CustomEvent('mappings-changed'));
+  }
+
+  private learn(source: MidiSource) {
+    if (this.learningTarget === null) return;
+    this.midiDispatcher.markConsumed(`learn ${this.learningTarget}`);
+    const response = this.mappings.get(this.learningTarget)?.response;
+    const mapping: MidiMapping = { target: this.learningTarget, source, response };
+    // A message moves one thing: whatever else was bound to it lets go.
+    for (const other of [...this.mappings.values()]) {
+      if (other.target !== mapping.target && sourcesConflict(other.source, source)) this.mappings.delete(other.target);
+    }
+    this.mappings.set(mapping.target, mapping);
+    this.learningTarget = null;
+    this.learnedMessage = true;
+    // Other listeners for the message run synchronously before this.
+    queueMicrotask(() => this.learnedMessage = false);
+    this.dispatchEvent(new CustomEvent<MidiMapping>('mapping-learned', { detail: mapping }));
+    this.notifyChanged();
+  }
+
+  private handleControlChange({ channel, cc, value, value14 }: ControlChange) {
+    if (this.learningTarget !== null) {
+      this.learn({ type: 'cc', channel, cc });
+      return;
+    }
+    for (const mapping of this.mappings.values()) {
+      const { source } = mapping;
+      if (source.type !== 'cc' || source.cc !== cc || !matchesChannel(source.channel, channel)) continue;
+      const parameter = this.parameters.get(mapping.target);
+      if (!parameter) continue;
+      const encoding = mapping.response?.encoding ?? 'absolute';
+      if (encoding !== 'absolute') {
+        // Encoders are 7-bit; ignore the repeat that comes with a paired LSB.
+        if (value14 === undefined) this.applyRelative(mapping, parameter, decodeRelative(value, encoding));
+        continue;
+      }
+      if (value14 === undefined) {
+        this.applyPosition(mapping, parameter, value / 127);
+      } else if (mapping.response?.highResolution) {
+        this.applyPosition(mapping, parameter, value14 / 0x3fff);
+      }
+    }
+  }
+
+  private handleNrpn({ channel, parameter: nrpn, value }: NrpnMessage) {
+    if (this.learningTarget !== null) {
+      this.learn({ type: 'nrpn', channel, parameter: nrpn });
+      return;
+    }
+    for (const mapping of this.mappings.values()) {
+      const { source } = mapping;
+      if (source.type !== 'nrpn' || source.parameter !== nrpn || !matchesChannel(source.channel, channel)) continue;
+      const parameter = this.parameters.get(mapping.target);
+      if (parameter) this.applyPosition(mapping, parameter, value / 0x3fff);
+    }
+  }
+
+  private applyPosition(mapping: MidiMapping, parameter: MappableParameter, incoming: number) {
+    this.midiDispatcher.markConsumed(parameter.label);
+    const previous = this.lastPositions.get(mapping.target);
+    this.lastPositions.set(mapping.target, incoming);
+    if (parameter.kind === 'trigger') {
+      if ((previous ?? 0) < 0.5 && incoming >= 0.5) parameter.apply(1);
+      return;
+    }
+
+    const { response } = mapping;
+    let position: number | null = incoming;
+    if (parameter.read && response?.takeover && response.takeover !== 'jump') {
+      const current = invertResponse(parameter.read(), response);
+      position = resolveTakeover(response.takeover, current, incoming, previous);
+    }
+    if (position !== null) parameter.apply(applyResponse(position, response));
+  }
+
+  private applyRelative(mapping: MidiMapping, parameter: MappableParameter, steps: number) {
+    this.midiDispatcher.markConsumed(parameter.label);
+    if (steps === 0) return;
+    if (parameter.kind === 'trigger') {
+      parameter.apply(1);
+      return;
+    }
+    if (!parameter.read) return;
+
+    const { target, response } = mapping;
+    const now = performance.now();
+    const elapsed = now - (this.lastStepTimes.get(target) ?? -Infinity);
+    this.lastStepTimes.set(target, now);
+
+    // Keep our own unquantized position so small steps on stepped parameters add up.
+    const actual = parameter.read();
+    let position = this.relativePositions.get(target);
+    if (position === undefined || Math.abs(applyResponse(position, response) - actual) > RELATIVE_RESYNC) {
+      position = invertResponse(actual, response);
+    }
+    position = Math.min(Math.max(position + relativeDelta(steps, response?.acceleration, elapsed), 0), 1);
+    this.relativePositions.set(target, position);
+    parameter.apply(applyResponse(position, response));
+  }
+
+  private handleNote({ channel, note, velocity, on }: NoteMessage) {
+    if (this.learningTarget !== null) {
+      if (on) this.learn({ type: 'note', channel, note });
+      return;
+    }
+    if (!on) return;
+    for (const mapping of this.mappings.values()) {
+      const { source } = mapping;
+      if (source.type !== 'note' || source.note !== note || !matchesChannel(source.channel, channel)) continue;
+      const parameter = this.parameters.get(mapping.target);
+      if (!parameter) continue;
+      this.midiDispatcher.markConsumed(parameter.label);
+      parameter.apply(parameter.kind === 'continuous' ? applyResponse(velocity / 127, mapping.response) : 1);
+    }
+  }
+}
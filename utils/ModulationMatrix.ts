@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiChannel, ModulationAssignment, ModulationMessage, ModulationSourceType, NoteMessage, Prompt } from '../types';
+import type { MidiDispatcher } from './MidiDispatcher';
+
+const STORAGE_KEY = 'promptdj-midi-modulation';
+
+export const MODULATION_SOURCES: { type: ModulationSourceType; label: string }[] = [
+  { type: 'pitch-bend', label: 'Pitch Bend' },
+  { type: 'channel-pressure', label: 'Channel Pressure' },
+  { type: 'poly-aftertouch', label: 'Poly Aftertouch' },
+];
+
+const MAX_WEIGHT = 2;
+
+/**
+ * Holds the latest value of each modulation source and applies the
+ * assignments on top of the slots' base weight and density. The base values
+ * are never written, so releasing a wheel or key returns to them exactly.
+ */
+export class ModulationMatrix extends EventTarget {
+  private readonly midiDispatcher: MidiDispatcher;
+  private assignments: ModulationAssignment[] = loadAssignments();
+  /** Latest value per `${source}:${channel}`. */
+  private values = new Map<string, number>();
+  /** Poly aftertouch per held key, reduced to the strongest per channel. */
+  private polyPressure = new Map<number, Map<number, number>>();
+
+  constructor(midiDispatcher: MidiDispatcher) {
+    super();
+    this.midiDispatcher = midiDispatcher;
+    midiDispatcher.addEventListener('modulation-message', (e: Event) => {
+      this.handleModulation((e as CustomEvent<ModulationMessage>).detail);
+    });
+    // A released key should stop modulating even if its last pressure wasn't 0.
+    midiDispatcher.addEventListener('note-message', (e: Event) => {
+      const { channel, note, on } = (e as CustomEvent<NoteMessage>).detail;
+      if (!on) this.setPolyPressure(channel, note, 0);
+    });
+  }
+
+  get allAssignments(): readonly ModulationAssignment[] {
+    return this.assignments;
+  }
+
+  setAssignments(assignments: ModulationAssignment[]) {
+    this.assignments = assignments;
+    saveAssignments(assignments);
+    this.dispatchEvent(new CustomEvent('change'));
+  }
+
+  /** The current value of a source on a channel, -1 to 1 or 0 to 1. */
+  getValue(source: ModulationSourceType, channel: MidiChannel): number {
+    if (channel !== 'omni') return this.values.get(`${source}:${channel}`) ?? 0;
+    let strongest = 0;
+    for (const [key, value] of this.values) {
+      if (key.startsWith(`${source}:`) && Math.abs(value) > Math.abs(strongest)) strongest = value;
+    }
+    return strongest;
+  }
+
+  /** Returns copies of the prompts with every assignment's offset applied. */
+  apply(prompts: Map<string, Prompt>): Map<string, Prompt> {
+    if (this.assignments.length === 0) return prompts;
+    const modulated = new Map<string, Prompt>();
+    for (const [promptId, prompt] of prompts) {
+      let weight = prompt.weight;
+      let density = prompt.density;
+      for (const a of this.assignments) {
+        const applies = a.target === promptId || (a.target === 'active' && prompt.weight > 0);
+        if (!applies) continue;
+        const offset = a.depth * this.getValue(a.source, a.channel);
+        if (a.parameter === 'weight') weight += offset * MAX_WEIGHT;
+        else density += offset;
+      }
+      modulated.set(promptId, {
+        ...prompt,
+        weight: Math.min(Math.max(weight, 0), MAX_WEIGHT),
+        density: Math.min(Math.max(density, 0), 1),
+      });
+    }
+    return modulated;
+  }
+
+  private handleModulation({ channel, source, value, note }: ModulationMessage) {
+    if (source === 'poly-aftertouch' && note !== undefined) {
+      this.setPolyPressure(channel, note, value);
+    } else {
+      this.setValue(source, channel, value);
+    }
+  }
+
+  private setPolyPressure(channel: number, note: number, value: number) {
+    let keys = this.polyPressure.get(channel);
+    if (!keys) {
+      if (value === 0) return;
+      keys = new Map();
+      this.polyPressure.set(channel, keys);
+    }
+    if (value > 0) keys.set(note, value);
+    else keys.delete(note);
+    this.setValue('poly-aftertouch', channel, Math.max(0, ...keys.values()));
+  }
+
+  private setValue(source: ModulationSourceType, channel: number, value: number) {
+    const key = `${source}:${channel}`;
+    if ((this.values.get(key) ?? 0) === value) return;
+    this.values.set(key, value);
+    const used = this.assignments.some((a) => a.source === source && (a.channel === 'omni' || a.channel === channel));
+    if (!used) return;
+    this.midiDispatcher.markConsumed('modulation');
+    this.dispatchEvent(new CustomEvent('change'));
+  }
+}
+
+function isAssignment(value: unknown): value is ModulationAssignment {
+  if (!value || typeof value !== 'object') return false;
+  const assignment = value as Record<string, unknown>;
+  const { channel, depth } = assignment;
+  return MODULATION_SOURCES.some((s) => s.type === assignment.source)
+    && (channel === 'omni' || (typeof channel === 'number' && channel >= 0 && channel < 16))
+    && typeof assignment.target === 'string'
+    && (assignment.parameter === 'weight' || assignment.parameter === 'density')
+    && typeof depth === 'number' && depth >= -1 && depth <= 1;
+}
+
+/** Reads the saved assignments, skipping any that no longer validate. */
+function loadAssignments(): ModulationAssignment[] {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch (e) {
+    console.warn('Ignoring unreadable modulation assignments.', e);
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  const assignments = stored.filter(isAssignment);
+  if (assignments.length < stored.length) console.warn('Ignoring invalid modulation assignments.');
+  return assignments;
+}
+
+function saveAssignments(assignments: ModulationAssignment[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(assignments));
+}
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/// <reference types="vite/client" />
+import type { AudioChunk } from '@google/genai';
+import type { DecodeRequest, DecodeResponse } from './pcmDecodeWorker';
+import PcmDecodeWorker from './pcmDecodeWorker.ts?worker';
+
+/** Decodes base64 PCM into planar Float32 channels on a worker thread. */
+export class PcmDecoder {
+  private readonly worker = new PcmDecodeWorker();
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (channels: Float32Array[]) => void; reject: (error: Error) => void }>();
+
+  constructor() {
+    this.worker.onmessage = (e: MessageEvent<DecodeResponse>) => {
+      const response = e.data;
+      const request = this.pending.get(response.id);
+      this.pending.delete(response.id);
+      if ('error' in response) request?.reject(new Error(response.error));
+      else request?.resolve(response.channels);
+    };
+    // An error the worker did not catch leaves no id to answer, so nothing in flight can be trusted.
+    this.worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      const error = new Error(e.message || 'Audio decoder failed.');
+      for (const { reject } of this.pending.values()) reject(error);
+      this.pending.clear();
+    };
+  }
+
+  /**
+   * Decodes to `sampleRate` and `numChannels`, converting from the chunk's
+   * mime type where it differs. Resolves in the order requests were made,
+   * since the worker handles them in turn. Rejects if the chunk cannot be decoded.
+   */
+  decode(chunk: AudioChunk, sampleRate: number, numChannels: number): Promise<Float32Array[]> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ id, data: chunk.data ?? '', mimeType: chunk.mimeType, sampleRate, numChannels } satisfies DecodeRequest);
+    });
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { PlaybackState } from '../types';
+import { PlaybackStateMachine } from './PlaybackStateMachine';
+
+/** Walks a fresh machine through `path`, failing if any step is refused. */
+function machineIn(...path: PlaybackState[]) {
+  const machine = new PlaybackStateMachine();
+  for (const state of path) expect(machine.transition(state)).toBe(true);
+  return machine;
+}
+
+describe('PlaybackStateMachine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('starts stopped', () => {
+    expect(new PlaybackStateMachine().state).toBe('stopped');
+  });
+
+  it.each<[PlaybackState[], PlaybackState]>([
+    [[], 'connecting'],
+    [['connecting'], 'buffering'],
+    [['connecting'], 'paused'],
+    [['connecting', 'buffering'], 'playing'],
+    [['connecting', 'buffering', 'playing'], 'reconnecting'],
+    [['connecting', 'buffering', 'playing', 'reconnecting'], 'buffering'],
+    [['connecting', 'buffering', 'playing'], 'paused'],
+    [['connecting', 'buffering', 'playing', 'paused'], 'connecting'],
+    [['connecting'], 'error'],
+    [['connecting', 'error'], 'connecting'],
+    [['connecting', 'buffering', 'playing'], 'stopped'],
+  ])('allows %j -> %s', (path, next) => {
+    const machine = machineIn(...path);
+    const changed = vi.fn();
+    machine.addEventListener('playback-state-changed', (e) => changed((e as CustomEvent<PlaybackState>).detail));
+
+    expect(machine.canTransition(next)).toBe(true);
+    expect(machine.transition(next)).toBe(true);
+    expect(machine.state).toBe(next);
+    expect(changed).toHaveBeenCalledWith(next);
+  });
+
+  it.each<[PlaybackState[], PlaybackState]>([
+    [[], 'playing'],
+    [[], 'paused'],
+    [[], 'reconnecting'],
+    [['connecting'], 'playing'],
+    [['connecting'], 'reconnecting'],
+    [['connecting', 'buffering', 'playing', 'paused'], 'playing'],
+    [['connecting', 'error'], 'playing'],
+  ])('refuses %j -> %s', (path, next) => {
+    const machine = machineIn(...path);
+    const before = machine.state;
+    const changed = vi.fn();
+    machine.addEventListener('playback-state-changed', changed);
+
+    expect(machine.canTransition(next)).toBe(false);
+    expect(machine.transition(next)).toBe(false);
+    expect(machine.state).toBe(before);
+    expect(changed).not.toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('treats staying in the current state as a silent no-op', () => {
+    const machine = machineIn('connecting');
+    const changed = vi.fn();
+    machine.addEventListener('playback-state-changed', changed);
+
+    expect(machine.transition('connecting')).toBe(true);
+    expect(changed).not.toHaveBeenCalled();
+  });
+
+  it('runs a scheduled callback while the state holds', () => {
+    const machine = machineIn('connecting');
+    const callback = vi.fn();
+    machine.schedule(callback, 100);
+
+    vi.advanceTimersByTime(100);
+    expect(callback).toHaveBeenCalledOnce();
+  });
+
+  it('cancels scheduled callbacks on a transition', () => {
+    const machine = machineIn('connecting', 'buffering', 'playing', 'reconnecting');
+    const callback = vi.fn();
+    machine.schedule(callback, 100);
+    machine.schedule(callback, 200);
+
+    machine.transition('paused');
+    vi.advanceTimersByTime(1000);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('keeps scheduled callbacks when a transition is refused or a no-op', () => {
+    const machine = machineIn('connecting');
+    const callback = vi.fn();
+    machine.schedule(callback, 100);
+
+    machine.transition('playing');
+    machine.transition('connecting');
+    vi.advanceTimersByTime(100);
+    expect(callback).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { PlaybackState } from '../types';
+
+/** Every state playback may move to from each state. */
+const TRANSITIONS: Record<PlaybackState, readonly PlaybackState[]> = {
+  stopped: ['connecting'],
+  connecting: ['buffering', 'paused', 'stopped', 'error'],
+  buffering: ['playing', 'paused', 'stopped', 'reconnecting', 'error'],
+  playing: ['buffering', 'paused', 'stopped', 'reconnecting', 'error'],
+  paused: ['connecting', 'stopped', 'reconnecting', 'error'],
+  reconnecting: ['buffering', 'playing', 'paused', 'stopped', 'error'],
+  error: ['connecting', 'stopped'],
+};
+
+/**
+ * Owns the playback state. Illegal transitions are refused, and timers
+ * started through `schedule` belong to the state they were started in: any
+ * transition cancels them, so a stale timeout can never move playback on.
+ *
+ * Dispatches `playback-state-changed` with the new state.
+ */
+export class PlaybackStateMachine extends EventTarget {
+  private _state: PlaybackState = 'stopped';
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  get state() {
+    return this._state;
+  }
+
+  is(...states: PlaybackState[]) {
+    return states.includes(this._state);
+  }
+
+  canTransition(next: PlaybackState) {
+    return TRANSITIONS[this._state].includes(next);
+  }
+
+  /** Moves to `next` if legal; staying in the current state is a no-op. Returns whether playback is now in `next`. */
+  transition(next: PlaybackState): boolean {
+    if (next === this._state) return true;
+    if (!this.canTransition(next)) {
+      console.warn(`Ignoring illegal playback transition ${this._state} -> ${next}.`);
+      return false;
+    }
+    this.cancelTimers();
+    this._state = next;
+    this.dispatchEvent(new CustomEvent<PlaybackState>('playback-state-changed', { detail: next }));
+    return true;
+  }
+
+  /** Runs `callback` after `ms` unless the state changes first. */
+  schedule(callback: () => void, ms: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, ms);
+    this.timers.add(timer);
+  }
+
+  private cancelTimers() {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+}
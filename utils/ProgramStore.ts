@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MixerProgram, Prompt, ProgramSlot } from '../types';
+
+const STORAGE_KEY = 'promptdj-midi-programs';
+
+function isSlot(value: unknown): value is ProgramSlot {
+  if (!value || typeof value !== 'object') return false;
+  const slot = value as Record<string, unknown>;
+  return typeof slot.text === 'string'
+    && typeof slot.weight === 'number'
+    && typeof slot.color === 'string'
+    && typeof slot.density === 'number'
+    && (slot.instruments === undefined || (Array.isArray(slot.instruments) && slot.instruments.every((i) => typeof i === 'string')))
+    && (slot.selectedInstrument === undefined || typeof slot.selectedInstrument === 'string');
+}
+
+/** Checks a decoded program, dropping any slot that is malformed; returns null if the program itself is. */
+function validateProgram(value: unknown): MixerProgram | null {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  if (!Number.isInteger(data.number) || (data.number as number) < 0
+    || typeof data.name !== 'string'
+    || typeof data.tempoBpm !== 'number'
+    || !data.slots || typeof data.slots !== 'object' || Array.isArray(data.slots)) {
+    return null;
+  }
+  const slots = Object.fromEntries(Object.entries(data.slots).filter(([, slot]) => isSlot(slot)));
+  return { number: data.number as number, name: data.name, tempoBpm: data.tempoBpm, slots };
+}
+
+/** Reads the saved programs, skipping any that no longer validate. */
+export function loadStoredPrograms(): MixerProgram[] {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch (e) {
+    console.warn('Ignoring unreadable stored programs.', e);
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap((entry) => {
+    const program = validateProgram(entry);
+    if (!program) console.warn('Ignoring an invalid stored program.', entry);
+    return program ? [program] : [];
+  });
+}
+
+export function saveStoredPrograms(programs: MixerProgram[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(programs));
+}
+
+/** Formats a program number as "bank:program", 1-based like most hardware. */
+export function formatProgramNumber(number: number): string {
+  const bank = Math.floor(number / 128);
+  const program = (number % 128) + 1;
+  return bank > 0 ? `${bank + 1}:${program}` : `${program}`;
+}
+
+/** Captures the musical state of every slot. */
+export function captureProgram(
+  number: number,
+  name: string,
+  prompts: Map<string, Prompt>,
+  tempoBpm: number,
+): MixerProgram {
+  const slots: Record<string, ProgramSlot> = {};
+  for (const p of prompts.values()) {
+    slots[p.promptId] = {
+      text: p.text,
+      weight: p.weight,
+      color: p.color,
+      density: p.density,
+      instruments: p.instruments ? [...p.instruments] : undefined,
+      selectedInstrument: p.selectedInstrument,
+    };
+  }
+  return { number, name, tempoBpm, slots };
+}
+
+/** Applies a program over the current slots, keeping their MIDI mappings. */
+export function applyProgram(program: MixerProgram, prompts: Map<string, Prompt>): Map<string, Prompt> {
+  const next = new Map<string, Prompt>();
+  for (const [promptId, prompt] of prompts) {
+    const slot = program.slots[promptId];
+    next.set(promptId, slot ? { ...prompt, ...slot } : prompt);
+  }
+  return next;
+}
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ControlChange } from '../types';
+import type { MidiDispatcher } from './MidiDispatcher';
+
+export const VIRTUAL_INPUT_ID = 'virtual-keyboard';
+const VIRTUAL_INPUT_NAME = 'Computer Keyboard';
+
+/** Faders send CCs 0-15 on channel 1, matching the default slot mappings. */
+export const VIRTUAL_CONTROL_COUNT = 16;
+const CHANNEL = 0;
+
+/** How far one key press moves a fader, in 7-bit steps. */
+const NUDGE_STEP = 8;
+
+/** Pads also play notes 36-51, so note mappings can be learned from them. */
+const FIRST_PAD_NOTE = 36;
+
+/** The value a pad restores when its fader has never been up. */
+const DEFAULT_ON_VALUE = 64;
+
+/** Number keys nudge faders 1-8 up, the row below nudges them down; Shift selects 9-16. */
+const NUDGE_UP_KEYS = ['Digit1', 'Digit2', 'Digit3', 'Digit4', 'Digit5', 'Digit6', 'Digit7', 'Digit8'];
+const NUDGE_DOWN_KEYS = ['KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT', 'KeyY', 'KeyU', 'KeyI'];
+
+/** Home row toggles pads 1-8, bottom row pads 9-16. */
+const PAD_KEYS = [
+  'KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK',
+  'KeyZ', 'KeyX', 'KeyC', 'KeyV', 'KeyB', 'KeyN', 'KeyM', 'Comma',
+];
+
+/**
+ * A software controller fed into the MidiDispatcher as if it were hardware.
+ * It has 16 faders on CCs 0-15 and 16 pads. A pad sends its note, then flips
+ * its fader between 0 and the last value it had, like a toggle button on a
+ * hardware controller.
+ */
+export class VirtualMidiInput extends EventTarget {
+  private readonly midiDispatcher: MidiDispatcher;
+  readonly values: number[] = new Array(VIRTUAL_CONTROL_COUNT).fill(0);
+  private readonly lastOnValues: number[] = new Array(VIRTUAL_CONTROL_COUNT).fill(DEFAULT_ON_VALUE);
+
+  constructor(midiDispatcher: MidiDispatcher) {
+    super();
+    this.midiDispatcher = midiDispatcher;
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+    this.handleKeyUp = this.handleKeyUp.bind(this);
+    // Off by default, so typing never moves the mix until the device is enabled.
+    midiDispatcher.addVirtualInput(VIRTUAL_INPUT_ID, VIRTUAL_INPUT_NAME, false);
+    midiDispatcher.addEventListener('cc-feedback', (e: Event) => {
+      const { channel, cc, value } = (e as CustomEvent<ControlChange>).detail;
+      if (channel === CHANNEL && cc < VIRTUAL_CONTROL_COUNT) this.store(cc, value);
+    });
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+  }
+
+  get enabled() {
+    return this.midiDispatcher.isInputEnabled(VIRTUAL_INPUT_ID);
+  }
+
+  setFader(index: number, value: number) {
+    const clamped = Math.round(Math.min(Math.max(value, 0), 127));
+    this.store(index, clamped);
+    this.midiDispatcher.receive(VIRTUAL_INPUT_ID, new Uint8Array([0xb0 | CHANNEL, index, clamped]));
+  }
+
+  nudge(index: number, steps: number) {
+    this.setFader(index, this.values[index] + steps * NUDGE_STEP);
+  }
+
+  pressPad(index: number) {
+    this.midiDispatcher.receive(VIRTUAL_INPUT_ID, new Uint8Array([0x90 | CHANNEL, FIRST_PAD_NOTE + index, 127]));
+    this.setFader(index, this.values[index] > 0 ? 0 : this.lastOnValues[index]);
+  }
+
+  releasePad(index: number) {
+    this.midiDispatcher.receive(VIRTUAL_INPUT_ID, new Uint8Array([0x80 | CHANNEL, FIRST_PAD_NOTE + index, 0]));
+  }
+
+  private store(index: number, value: number) {
+    this.values[index] = value;
+    if (value > 0) this.lastOnValues[index] = value;
+    this.dispatchEvent(new CustomEvent('change'));
+  }
+
+  /** Leaves keys alone while typing in a field or using browser shortcuts. */
+  private ignoresKey(e: KeyboardEvent) {
+    if (!this.enabled || e.ctrlKey || e.metaKey || e.altKey) return true;
+    const target = e.composedPath()[0] as HTMLElement | undefined;
+    return !!(target?.isContentEditable || target?.matches?.('input, select, textarea'));
+  }
+
+  private handleKeyUp(e: KeyboardEvent) {
+    if (this.ignoresKey(e)) return;
+    const pad = PAD_KEYS.indexOf(e.code);
+    if (pad >= 0) this.releasePad(pad);
+  }
+
+  private handleKeyDown(e: KeyboardEvent) {
+    if (this.ignoresKey(e)) return;
+
+    const bank = e.shiftKey ? 8 : 0;
+    const up = NUDGE_UP_KEYS.indexOf(e.code);
+    const down = NUDGE_DOWN_KEYS.indexOf(e.code);
+    const pad = PAD_KEYS.indexOf(e.code);
+    if (up >= 0) {
+      this.nudge(up + bank, 1);
+    } else if (down >= 0) {
+      this.nudge(down + bank, -1);
+    } else if (pad >= 0 && !e.repeat) {
+      this.pressPad(pad);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  }
+}
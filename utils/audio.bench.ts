@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { bench, describe } from 'vitest';
+
+import { deinterleavePcm16 } from './audio';
+
+/**
+ * The decoder before the single-pass rewrite: one conversion pass over every
+ * sample, then a filter over all of them for each channel.
+ */
+function legacyDeinterleave(data: Uint8Array, numChannels: number): Float32Array[] {
+  const dataInt16 = new Int16Array(data.buffer);
+  const l = dataInt16.length;
+  const dataFloat32 = new Float32Array(l);
+  for (let i = 0; i < l; i++) {
+    dataFloat32[i] = dataInt16[i] / 32768.0;
+  }
+  const channels: Float32Array[] = [];
+  for (let i = 0; i < numChannels; i++) {
+    channels.push(dataFloat32.filter((_, index) => index % numChannels === i));
+  }
+  return channels;
+}
+
+/** About two seconds of 48 kHz stereo, the size of a typical chunk. */
+const FRAMES = 96000;
+const chunk = new Uint8Array(new Int16Array(FRAMES * 2).map(() => Math.round(Math.random() * 65535) - 32768).buffer);
+
+describe('deinterleave a stereo chunk', () => {
+  bench('per-channel filter (before)', () => {
+    legacyDeinterleave(chunk, 2);
+  });
+
+  bench('single pass', () => {
+    deinterleavePcm16(chunk, 2);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { decodePcmChunk, deinterleavePcm16, encode, parsePcmMimeType, resampleLinear } from './audio';
+
+/** Little-endian 16-bit PCM bytes for the given samples. */
+function pcmBytes(samples: number[]) {
+  return new Uint8Array(new Int16Array(samples).buffer);
+}
+
+const DEFAULTS = { sampleRate: 48000, numChannels: 2 };
+
+describe('parsePcmMimeType', () => {
+  it('reads the rate and channel count', () => {
+    expect(parsePcmMimeType('audio/pcm;rate=24000;channels=1', DEFAULTS)).toEqual({ sampleRate: 24000, numChannels: 1 });
+  });
+
+  it('falls back to the defaults for missing or invalid parameters', () => {
+    expect(parsePcmMimeType('audio/pcm', DEFAULTS)).toEqual(DEFAULTS);
+    expect(parsePcmMimeType('audio/pcm;rate=fast;channels=0', DEFAULTS)).toEqual(DEFAULTS);
+    expect(parsePcmMimeType(undefined, DEFAULTS)).toEqual(DEFAULTS);
+  });
+
+  it('accepts L16 in any case', () => {
+    expect(parsePcmMimeType('Audio/L16; rate=16000', DEFAULTS)).toEqual({ sampleRate: 16000, numChannels: 2 });
+  });
+
+  it('refuses other kinds of audio', () => {
+    expect(parsePcmMimeType('audio/mpeg', DEFAULTS)).toBeNull();
+    expect(parsePcmMimeType('audio/wav;rate=48000', DEFAULTS)).toBeNull();
+  });
+});
+
+describe('deinterleavePcm16', () => {
+  it('splits interleaved frames into channels', () => {
+    const [left, right] = deinterleavePcm16(pcmBytes([16384, -16384, 8192, -32768]), 2);
+    expect([...left]).toEqual([0.5, 0.25]);
+    expect([...right]).toEqual([-0.5, -1]);
+  });
+
+  it('reads a view at an odd byte offset', () => {
+    const bytes = pcmBytes([16384, -16384, 8192, -8192]);
+    const buffer = new Uint8Array(bytes.length + 1);
+    buffer.set(bytes, 1);
+    const [left, right] = deinterleavePcm16(buffer.subarray(1), 2);
+    expect([...left]).toEqual([0.5, 0.25]);
+    expect([...right]).toEqual([-0.5, -0.25]);
+  });
+
+  it('ignores a trailing partial frame', () => {
+    const bytes = pcmBytes([16384, -16384, 8192, -8192, 4096]);
+    const [left, right] = deinterleavePcm16(bytes, 2);
+    expect(left).toHaveLength(2);
+    expect(right).toHaveLength(2);
+
+    const oddByte = new Uint8Array([...pcmBytes([16384]), 0x7f]);
+    expect([...deinterleavePcm16(oddByte, 1)[0]]).toEqual([0.5]);
+  });
+});
+
+describe('resampleLinear', () => {
+  it('returns the samples unchanged at the same rate', () => {
+    const samples = new Float32Array([0, 1]);
+    expect(resampleLinear(samples, 48000, 48000)).toBe(samples);
+  });
+
+  it('interpolates between samples when upsampling', () => {
+    expect([...resampleLinear(new Float32Array([0, 1, 0]), 24000, 48000)]).toEqual([0, 0.5, 1, 0.5, 0, 0]);
+  });
+});
+
+describe('decodePcmChunk', () => {
+  it('spreads mono to every output channel as separate buffers', () => {
+    const channels = decodePcmChunk(encode(pcmBytes([16384, -16384])), 'audio/pcm;rate=48000;channels=1', 48000, 2);
+    expect(channels).toHaveLength(2);
+    expect([...channels[0]]).toEqual([0.5, -0.5]);
+    expect([...channels[1]]).toEqual([0.5, -0.5]);
+    // Each buffer is transferred on its own, so they must not be shared.
+    expect(channels[0].buffer).not.toBe(channels[1].buffer);
+  });
+
+  it('resamples from the rate in the mime type', () => {
+    const frames = 100;
+    const data = encode(pcmBytes(new Array(frames * 2).fill(8192)));
+    const channels = decodePcmChunk(data, 'audio/pcm;rate=24000', 48000, 2);
+    expect(channels[0]).toHaveLength(frames * 2);
+    expect(channels[1][frames]).toBe(0.25);
+  });
+
+  it('keeps the requested rate and channels when the mime type omits them', () => {
+    const channels = decodePcmChunk(encode(pcmBytes([16384, -16384, 8192, -8192])), 'audio/pcm', 48000, 2);
+    expect(channels.map((c) => [...c])).toEqual([[0.5, 0.25], [-0.5, -0.25]]);
+  });
+
+  it('refuses chunks that are not PCM or hold no samples', () => {
+    expect(() => decodePcmChunk(encode(pcmBytes([0, 0])), 'audio/ogg', 48000, 2)).toThrow('Unsupported audio type audio/ogg.');
+    expect(() => decodePcmChunk('', 'audio/pcm', 48000, 2)).toThrow('Audio chunk holds no samples.');
+  });
+});
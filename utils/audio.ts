@@ -38,37 +38,138 @@ function createBlob(data: Float32Array): Blob {
   };
 }
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const buffer = ctx.createBuffer(
-    numChannels,
-    data.length / 2 / numChannels,
-    sampleRate,
+/** The format of a raw PCM chunk, as given by its mime type. */
+interface PcmFormat {
+  sampleRate: number;
+  numChannels: number;
+}
+
+/** Media types of raw 16-bit PCM, which is all the decoder understands. */
+const PCM_MEDIA_TYPES = ['audio/pcm', 'audio/l16'];
+
+/**
+ * Reads `rate` and `channels` from a mime type like
+ * "audio/pcm;rate=48000;channels=2", falling back to the given defaults.
+ * Returns null for any other kind of audio; a missing mime type is taken as PCM.
+ */
+function parsePcmMimeType(mimeType: string | undefined, defaults: PcmFormat): PcmFormat | null {
+  const [mediaType, ...rawParams] = (mimeType ?? '').split(';');
+  if (mediaType.trim() !== '' && !PCM_MEDIA_TYPES.includes(mediaType.trim().toLowerCase())) return null;
+  const params = new Map(
+    rawParams.map((param) => {
+      const [key, value] = param.split('=').map((part) => part.trim().toLowerCase());
+      return [key, parseInt(value)] as const;
+    }),
   );
+  const sampleRate = params.get('rate');
+  const numChannels = params.get('channels');
+  return {
+    sampleRate: sampleRate && sampleRate > 0 ? sampleRate : defaults.sampleRate,
+    numChannels: numChannels && numChannels > 0 ? numChannels : defaults.numChannels,
+  };
+}
 
-  const dataInt16 = new Int16Array(data.buffer);
-  const l = dataInt16.length;
-  const dataFloat32 = new Float32Array(l);
-  for (let i = 0; i < l; i++) {
-    dataFloat32[i] = dataInt16[i] / 32768.0;
+/**
+ * Splits interleaved 16-bit little-endian PCM into one Float32Array per
+ * channel in a single pass. Works on views at any byte offset; a trailing
+ * partial frame is ignored.
+ */
+function deinterleavePcm16(data: Uint8Array, numChannels: number): Float32Array[] {
+  const frames = Math.floor(data.byteLength / 2 / numChannels);
+  const samples = data.byteOffset % 2 === 0
+    ? new Int16Array(data.buffer, data.byteOffset, frames * numChannels)
+    : new Int16Array(data.slice(0, frames * numChannels * 2).buffer);
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(frames));
+  for (let i = 0, s = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++, s++) {
+      channels[c][i] = samples[s] / 32768;
+    }
+  }
+  return channels;
+}
+
+/** Linearly resamples one channel; good enough for the rare mismatched chunk. */
+function resampleLinear(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const length = Math.round(samples.length * toRate / fromRate);
+  const out = new Float32Array(length);
+  const step = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    out[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
   }
-  // Extract interleaved channels
-  if (numChannels === 0) {
-    buffer.copyToChannel(dataFloat32, 0);
-  } else {
-    for (let i = 0; i < numChannels; i++) {
-      const channel = dataFloat32.filter(
-        (_, index) => index % numChannels === i,
-      );
-      buffer.copyToChannel(channel, i);
+  return out;
+}
+
+/**
+ * Decodes a base64 PCM chunk to `numChannels` planar channels at
+ * `sampleRate`, reading the chunk's own format from its mime type and
+ * falling back to those values. Mono is spread to every output channel;
+ * extra channels are dropped. Throws if the chunk is not PCM or holds no samples.
+ */
+function decodePcmChunk(data: string, mimeType: string | undefined, sampleRate: number, numChannels: number): Float32Array[] {
+  const format = parsePcmMimeType(mimeType, { sampleRate, numChannels });
+  if (!format) throw new Error(`Unsupported audio type ${mimeType}.`);
+  const decoded = deinterleavePcm16(decode(data), format.numChannels)
+    .map((channel) => resampleLinear(channel, format.sampleRate, sampleRate));
+  if (decoded.length === 0 || decoded[0].length === 0) throw new Error('Audio chunk holds no samples.');
+  return Array.from({ length: numChannels }, (_, c) => c < decoded.length ? decoded[c] : decoded[decoded.length - 1].slice());
+}
+
+/**
+ * Encodes chunks of planar audio (chunk -> channel -> samples) as a 16-bit
+ * PCM WAV file. Int16Array samples are written as they are.
+ */
+function encodeWav(chunks: (Float32Array | Int16Array)[][], sampleRate: number, numChannels: number): globalThis.Blob {
+  const frames = chunks.reduce((sum, chunk) => sum + chunk[0].length, 0);
+  const dataSize = frames * numChannels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (const chunk of chunks) {
+    for (let i = 0; i < chunk[0].length; i++) {
+      for (let c = 0; c < numChannels; c++) {
+        const samples = chunk[c] ?? chunk[0];
+        view.setInt16(offset, samples instanceof Int16Array ? samples[i] : floatToInt16(samples[i]), true);
+        offset += 2;
+      }
     }
   }
+  return new globalThis.Blob([view], { type: 'audio/wav' });
+}
 
-  return buffer;
+function floatToInt16(sample: number) {
+  const clamped = Math.max(-1, Math.min(1, sample));
+  return clamped < 0 ? clamped * 32768 : clamped * 32767;
 }
 
-export {createBlob, decode, decodeAudioData, encode};
+export {
+  createBlob,
+  decode,
+  decodePcmChunk,
+  deinterleavePcm16,
+  encode,
+  encodeWav,
+  floatToInt16,
+  parsePcmMimeType,
+  resampleLinear,
+};
+export type {PcmFormat};
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ControllerEncoding, MidiResponse, ResponseCurve, TakeoverMode } from '../types';
+
+export const DEFAULT_RESPONSE: MidiResponse = {
+  min: 0,
+  max: 1,
+  invert: false,
+  curve: 'linear',
+};
+
+export const RESPONSE_CURVES: ResponseCurve[] = ['linear', 'logarithmic', 'exponential', 's-curve'];
+
+export const TAKEOVER_MODES: TakeoverMode[] = ['jump', 'pickup', 'scale'];
+
+export const CONTROLLER_ENCODINGS: ControllerEncoding[] = ['absolute', 'twos-complement', 'binary-offset', 'sign-magnitude'];
+
+/** How close, as a fraction of the range, counts as having caught the value. */
+const PICKUP_TOLERANCE = 1.5 / 127;
+
+/** Encoder detents needed to sweep the whole range without acceleration. */
+const RELATIVE_STEPS = 200;
+
+/** Steps closer together than this count as a fast turn. */
+const ACCELERATION_WINDOW_MS = 80;
+
+/** Step multiplier of the fastest turn at full acceleration. */
+const MAX_ACCELERATION = 8;
+
+/** Steepness of the logarithmic and exponential curves. */
+const LOG_K = 9;
+const EXP_K = 3;
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+function shape(x: number, curve: ResponseCurve): number {
+  switch (curve) {
+    case 'logarithmic':
+      return Math.log1p(LOG_K * x) / Math.log1p(LOG_K);
+    case 'exponential':
+      return Math.expm1(EXP_K * x) / Math.expm1(EXP_K);
+    case 's-curve':
+      return x * x * (3 - 2 * x);
+    default:
+      return x;
+  }
+}
+
+function unshape(y: number, curve: ResponseCurve): number {
+  switch (curve) {
+    case 'logarithmic':
+      return Math.expm1(y * Math.log1p(LOG_K)) / LOG_K;
+    case 'exponential':
+      return Math.log1p(y * Math.expm1(EXP_K)) / EXP_K;
+    case 's-curve':
+      return 0.5 - Math.sin(Math.asin(1 - 2 * y) / 3);
+    default:
+      return y;
+  }
+}
+
+/** Maps a 0-1 controller position to a 0-1 fraction of the target range. */
+export function applyResponse(value: number, response: MidiResponse = DEFAULT_RESPONSE): number {
+  let x = clamp01(value);
+  if (response.invert) x = 1 - x;
+  return response.min + shape(x, response.curve) * (response.max - response.min);
+}
+
+/**
+ * The inverse of `applyResponse`: where the controller has to sit to produce
+ * `output`. Used to send feedback to motorized faders and LED rings.
+ */
+export function invertResponse(output: number, response: MidiResponse = DEFAULT_RESPONSE): number {
+  const span = response.max - response.min;
+  const y = span === 0 ? 0 : clamp01((output - response.min) / span);
+  const x = clamp01(unshape(y, response.curve));
+  return response.invert ? 1 - x : x;
+}
+
+/**
+ * Decides where an incoming controller position leaves the value.
+ * Works on 0-1 controller positions: `current` is the position that would
+ * produce the current value (see `invertResponse`) and `previous` is where
+ * the controller was last seen. Returns the position to apply, or null to
+ * ignore the message and leave the value where it is.
+ */
+export function resolveTakeover(
+  mode: TakeoverMode = 'jump',
+  current: number,
+  incoming: number,
+  previous: number | undefined,
+): number | null {
+  if (mode === 'jump' || Math.abs(incoming - current) <= PICKUP_TOLERANCE) {
+    return incoming;
+  }
+  if (previous === undefined) return null;
+
+  if (mode === 'pickup') {
+    const crossed = (previous - current) * (incoming - current) <= 0;
+    return crossed ? incoming : null;
+  }
+
+  // Scale the remaining distance so value and controller reach the end together.
+  if (incoming > previous) {
+    const room = 1 - previous;
+    return room <= 0 ? incoming : current + (incoming - previous) * (1 - current) / room;
+  }
+  if (incoming < previous) {
+    return previous <= 0 ? incoming : current - (previous - incoming) * current / previous;
+  }
+  return null;
+}
+
+/** Decodes a relative encoder CC value into a signed step count. */
+export function decodeRelative(value: number, encoding: ControllerEncoding): number {
+  switch (encoding) {
+    case 'twos-complement':
+      return value < 64 ? value : value - 128;
+    case 'binary-offset':
+      return value - 64;
+    case 'sign-magnitude':
+      return value & 0x40 ? -(value & 0x3f) : value & 0x3f;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Converts encoder steps into a change of 0-1 controller position, growing
+ * with `acceleration` when steps arrive in quick succession.
+ */
+export function relativeDelta(steps: number, acceleration = 0, elapsedMs = Infinity): number {
+  const speed = Math.max(0, 1 - elapsedMs / ACCELERATION_WINDOW_MS);
+  return (steps / RELATIVE_STEPS) * (1 + acceleration * speed * (MAX_ACCELERATION - 1));
+}
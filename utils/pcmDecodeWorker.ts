@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { decodePcmChunk } from './audio';
+
+export interface DecodeRequest {
+  id: number;
+  /** Base64 16-bit little-endian interleaved PCM. */
+  data: string;
+  mimeType?: string;
+  /** The rate and channel count to deliver, and to assume when the mime type omits them. */
+  sampleRate: number;
+  numChannels: number;
+}
+
+export type DecodeResponse =
+  | { id: number; channels: Float32Array[] }
+  | { id: number; error: string };
+
+self.onmessage = (e: MessageEvent<DecodeRequest>) => {
+  const { id, data, mimeType, sampleRate, numChannels } = e.data;
+  let channels: Float32Array[];
+  try {
+    channels = decodePcmChunk(data, mimeType, sampleRate, numChannels);
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies DecodeResponse);
+    return;
+  }
+  self.postMessage({ id, channels } satisfies DecodeResponse, { transfer: channels.map((c) => c.buffer) });
+};
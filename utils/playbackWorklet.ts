@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Runs in the AudioWorkletGlobalScope, whose globals the DOM typings lack.
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+/** Messages from LiveMusicHelper to the processor. */
+export type PlaybackCommand =
+  | { type: 'push'; channels: Float32Array[] }
+  /** Frames that must be queued before playback starts or resumes after an underrun. */
+  | { type: 'threshold'; frames: number }
+  /** Ends the processor once its output has been faded out and disconnected. */
+  | { type: 'dispose' };
+
+/** Messages from the processor to LiveMusicHelper. */
+export type PlaybackReport =
+  | { type: 'started' }
+  | { type: 'underrun' }
+  | { type: 'status'; bufferedFrames: number };
+
+const NUM_CHANNELS = 2;
+const CAPACITY_SECONDS = 30;
+/** Roughly every 100 ms at 128 frames per render quantum. */
+const STATUS_INTERVAL_QUANTA = 40;
+/** Concealment fades to silence within this long, however long the gap. */
+const CONCEAL_SECONDS = 0.5;
+
+/**
+ * Plays audio pushed from the main thread out of a ring buffer, so playback
+ * never waits on the main thread. It holds off until `threshold` frames are
+ * queued; when the queue runs dry it reports an underrun, conceals the gap by
+ * playing the audio just heard backwards (which joins without a click) while
+ * fading out, and holds off again.
+ */
+class PlaybackProcessor extends AudioWorkletProcessor {
+  private readonly capacity = CAPACITY_SECONDS * sampleRate;
+  private readonly ring = Array.from({ length: NUM_CHANNELS }, () => new Float32Array(this.capacity));
+  private readIndex = 0;
+  private writeIndex = 0;
+  private buffered = 0;
+  private threshold = 2 * sampleRate;
+  private running = false;
+  /** Frames of concealment played since the underrun, or -1 when not concealing. */
+  private concealFrame = -1;
+  private concealFrom = 0;
+  private quanta = 0;
+  private disposed = false;
+
+  constructor() {
+    super();
+    this.port.onmessage = (e: MessageEvent<PlaybackCommand>) => this.handleCommand(e.data);
+  }
+
+  private handleCommand(command: PlaybackCommand) {
+    switch (command.type) {
+      case 'push':
+        this.write(command.channels);
+        break;
+      case 'threshold':
+        this.threshold = Math.min(command.frames, this.capacity / 2);
+        break;
+      case 'dispose':
+        this.disposed = true;
+        this.port.onmessage = null;
+        this.port.close();
+        break;
+    }
+  }
+
+  private write(channels: Float32Array[]) {
+    const length = channels[0].length;
+    for (let i = 0; i < length; i++) {
+      for (let c = 0; c < NUM_CHANNELS; c++) {
+        this.ring[c][this.writeIndex] = (channels[c] ?? channels[0])[i];
+      }
+      this.writeIndex = (this.writeIndex + 1) % this.capacity;
+    }
+    // Keep room behind the read position for concealment; drop the oldest audio if full.
+    const limit = this.capacity - Math.ceil(CONCEAL_SECONDS * sampleRate);
+    this.buffered += length;
+    if (this.buffered > limit) {
+      this.readIndex = (this.readIndex + this.buffered - limit) % this.capacity;
+      this.buffered = limit;
+    }
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    // Returning false lets the node be collected once nothing references it.
+    if (this.disposed) return false;
+    const output = outputs[0];
+    const concealFrames = Math.round(CONCEAL_SECONDS * sampleRate);
+    for (let i = 0; i < output[0].length; i++) {
+      if (!this.running && this.buffered >= this.threshold) {
+        this.running = true;
+        this.concealFrame = -1;
+        this.port.postMessage({ type: 'started' } satisfies PlaybackReport);
+      }
+      if (this.running && this.buffered === 0) {
+        this.running = false;
+        this.concealFrame = 0;
+        this.concealFrom = this.readIndex;
+        this.port.postMessage({ type: 'underrun' } satisfies PlaybackReport);
+      }
+
+      if (this.running) {
+        for (let c = 0; c < output.length; c++) output[c][i] = this.ring[c % NUM_CHANNELS][this.readIndex];
+        this.readIndex = (this.readIndex + 1) % this.capacity;
+        this.buffered--;
+      } else if (this.concealFrame >= 0 && this.concealFrame < concealFrames) {
+        const index = (this.concealFrom - 1 - this.concealFrame + this.capacity) % this.capacity;
+        // Starts at full level: the reversed tail begins on the sample just played, so it joins without a step.
+        const gain = 1 - this.concealFrame / concealFrames;
+        for (let c = 0; c < output.length; c++) output[c][i] = this.ring[c % NUM_CHANNELS][index] * gain;
+        this.concealFrame++;
+      } else {
+        for (let c = 0; c < output.length; c++) output[c][i] = 0;
+      }
+    }
+
+    if (++this.quanta % STATUS_INTERVAL_QUANTA === 0) {
+      this.port.postMessage({ type: 'status', bufferedFrames: this.buffered } satisfies PlaybackReport);
+    }
+    return true;
+  }
+}
+
+registerProcessor('playback-processor', PlaybackProcessor);